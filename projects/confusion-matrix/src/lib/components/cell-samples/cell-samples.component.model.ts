@@ -0,0 +1,33 @@
+/**
+ * Reference to a sample behind a confusion matrix value (e.g. an image or a dataset entry).
+ */
+export interface CellSample {
+    id: string;
+
+    /**
+     * File path or URL of the sample.
+     */
+    path?: string;
+
+    /**
+     * Image URL shown next to the sample.
+     */
+    thumbnail?: string;
+
+    description?: string;
+}
+
+/**
+ * Samples for each confusion matrix value, indexed by row label and then by column label.
+ * Samples can be given as plain ids.
+ */
+export interface CellSamples {
+    [rowLabel: string]: { [columnLabel: string]: Array<CellSample | string> };
+}
+
+export interface CellClickEvent {
+    rowLabel: string;
+    columnLabel: string;
+    value: number;
+    samples: Array<CellSample>;
+}
@@ -0,0 +1,14 @@
+import { CellSamplesComponent } from "./cell-samples.component";
+
+describe("Cell samples component test suite", () => {
+    it("Can page through the samples.", () => {
+        const cellSamples = new CellSamplesComponent();
+        cellSamples.pageSize = 2;
+        cellSamples.samples = [{ id: '1' }, { id: '2' }, { id: '3' }];
+        expect(cellSamples.numberOfPages).toBe(2);
+        cellSamples.next();
+        expect(cellSamples.pageSamples).toEqual([{ id: '3' }]);
+        cellSamples.next();
+        expect(cellSamples.page).toBe(1);
+    });
+});
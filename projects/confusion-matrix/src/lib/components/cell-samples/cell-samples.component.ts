@@ -0,0 +1,56 @@
+import { Component, Input } from "@angular/core";
+import { CellSample } from "./cell-samples.component.model";
+
+/**
+ * Lists, with paging, the samples behind a confusion matrix value.
+ */
+@Component({
+    selector: 'cell-samples',
+    templateUrl: './cell-samples.component.html',
+    styleUrls: ['./cell-samples.component.scss']
+})
+export class CellSamplesComponent {
+
+    @Input()
+    rowLabel = '';
+
+    @Input()
+    columnLabel = '';
+
+    @Input()
+    value = 0;
+
+    @Input()
+    set samples(samples: Array<CellSample>) {
+        this._samples = samples;
+        this.page = 0;
+    }
+
+    get samples(): Array<CellSample> {
+        return this._samples;
+    }
+
+    @Input()
+    pageSize = 10;
+
+    page = 0;
+
+    _samples = new Array<CellSample>();
+
+    get numberOfPages(): number {
+        return Math.max(1, Math.ceil(this._samples.length / this.pageSize));
+    }
+
+    get pageSamples(): Array<CellSample> {
+        const start = this.page * this.pageSize;
+        return this._samples.slice(start, start + this.pageSize);
+    }
+
+    previous() {
+        this.page = Math.max(0, this.page - 1);
+    }
+
+    next() {
+        this.page = Math.min(this.numberOfPages - 1, this.page + 1);
+    }
+}
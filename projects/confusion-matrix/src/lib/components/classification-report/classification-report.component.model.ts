@@ -0,0 +1,39 @@
+import { AverageMethod } from "@fullexpression/confusion-matrix-stats";
+
+/**
+ * Classification report columns, in display order.
+ */
+export enum ClassificationReportColumn {
+    Label = 'Label',
+    Precision = 'Precision',
+    Recall = 'Recall',
+    F1Score = 'F1Score',
+    Specificity = 'Specificity',
+    Support = 'Support'
+}
+
+/**
+ * Metrics of a label, or of an average when `average` is defined.
+ */
+export interface ClassificationReportRow {
+    label: string;
+    precision: number;
+    recall: number;
+    f1Score: number;
+    specificity: number;
+
+    /**
+     * Number of samples whose actual label is the row label (all the samples for the averages).
+     */
+    support: number;
+    average?: AverageMethod;
+}
+
+export class ClassificationReportSort {
+    column = ClassificationReportColumn.Label;
+    descending = false;
+
+    constructor(sort?: Partial<ClassificationReportSort>) {
+        Object.assign(this, sort);
+    }
+}
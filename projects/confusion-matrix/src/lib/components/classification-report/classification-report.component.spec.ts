@@ -0,0 +1,17 @@
+import { DecimalPipe } from "@angular/common";
+import { DownloadService } from "../../services/download.service";
+import { MetricFormulaService } from "../metrics/metric/metric-formula.service";
+import { MetricService } from "../metrics/metric/metric.service";
+import { ClassificationReportComponent } from "./classification-report.component";
+import { ClassificationReportColumn } from "./classification-report.component.model";
+import { ClassificationReportService } from "./classification-report.service";
+
+describe("Classification report component test suite", () => {
+    it("Can initialize correctly.", () => {
+        const metricService = new MetricService(new MetricFormulaService());
+        const classificationReportService = new ClassificationReportService(metricService, new DecimalPipe('en-US'));
+        const classificationReport = new ClassificationReportComponent(classificationReportService, new DownloadService());
+        expect(classificationReport).toBeDefined();
+        expect(classificationReport.sort.column).toBe(ClassificationReportColumn.Label);
+    });
+});
@@ -0,0 +1,119 @@
+import { Component, EventEmitter, Input, Output } from "@angular/core";
+import { ConfusionMatrix } from "@fullexpression/confusion-matrix-stats";
+import { DownloadService } from "../../services/download.service";
+import { ClassificationReportColumn, ClassificationReportRow, ClassificationReportSort } from "./classification-report.component.model";
+import { ClassificationReportService } from "./classification-report.service";
+
+/**
+ * Table with the precision, recall, F1 score, specificity and support of each label,
+ * followed by the macro, micro and weighted averages.
+ */
+@Component({
+    selector: 'classification-report',
+    templateUrl: './classification-report.component.html',
+    styleUrls: ['./classification-report.component.scss']
+})
+export class ClassificationReportComponent {
+
+    @Input()
+    set confusionMatrix(value: ConfusionMatrix) {
+        this._confusionMatrix = value;
+        this.refresh();
+    }
+
+    get confusionMatrix(): ConfusionMatrix {
+        return this._confusionMatrix;
+    }
+
+    /**
+     * Allows to define the metrics display format.
+     * If follows the angular decimal pipes rules:
+     * https://angular.io/api/common/DecimalPipe
+     */
+    @Input()
+    roundRules = '1.2-2';
+
+    /**
+     * Sorts the labels rows, the averages rows are always at the end.
+     */
+    @Input()
+    set sort(sort: ClassificationReportSort) {
+        this._sort = sort;
+        this.sortRows();
+    }
+
+    get sort(): ClassificationReportSort {
+        return this._sort;
+    }
+
+    @Output()
+    sortChange = new EventEmitter<ClassificationReportSort>();
+
+    /**
+     * File name, without extension, used when the report is saved.
+     */
+    @Input()
+    filename = 'classification-report';
+
+    columns = Object.values(ClassificationReportColumn);
+
+    labelsRows = new Array<ClassificationReportRow>();
+
+    averageRows = new Array<ClassificationReportRow>();
+
+    private _confusionMatrix = new ConfusionMatrix();
+    private _sort = new ClassificationReportSort();
+
+    constructor(private classificationReportService: ClassificationReportService,
+        private downloadService: DownloadService) { }
+
+    get rows(): Array<ClassificationReportRow> {
+        return [...this.labelsRows, ...this.averageRows];
+    }
+
+    /**
+     * Recalculates the report, needed when the confusion matrix values change.
+     */
+    refresh() {
+        this.labelsRows = this.classificationReportService.getLabelsRows(this._confusionMatrix);
+        this.averageRows = this.classificationReportService.getAverageRows(this._confusionMatrix);
+        this.sortRows();
+    }
+
+    /**
+     * Sorts by a column, or reverts the order if already sorted by it.
+     * @param column The column.
+     */
+    sortBy(column: ClassificationReportColumn) {
+        const descending = this._sort.column === column ? !this._sort.descending : column !== ClassificationReportColumn.Label;
+        this.sort = new ClassificationReportSort({ column, descending });
+        this.sortChange.emit(this._sort);
+    }
+
+    /**
+     * Gets how a column is sorted, announced by screen readers.
+     */
+    getAriaSort(column: ClassificationReportColumn): string {
+        if (this._sort.column !== column) {
+            return 'none';
+        }
+        return this._sort.descending ? 'descending' : 'ascending';
+    }
+
+    format(row: ClassificationReportRow, column: ClassificationReportColumn): string {
+        return this.classificationReportService.format(row, column, this.roundRules);
+    }
+
+    saveAsCsv() {
+        this.downloadService.download(this.classificationReportService.convertToCsv(this.rows), `${this.filename}.csv`);
+    }
+
+    saveAsMarkdown() {
+        this.downloadService.download(this.classificationReportService.convertToMarkdown(this.rows, this.roundRules),
+            `${this.filename}.md`);
+    }
+
+    private sortRows() {
+        this.labelsRows = this.classificationReportService.sort(this.labelsRows, this._sort);
+    }
+}
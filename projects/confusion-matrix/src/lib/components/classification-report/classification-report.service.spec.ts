@@ -0,0 +1,47 @@
+import { DecimalPipe } from "@angular/common";
+import { ConfusionMatrix } from "@fullexpression/confusion-matrix-stats";
+import { MetricFormulaService } from "../metrics/metric/metric-formula.service";
+import { MetricService } from "../metrics/metric/metric.service";
+import { ClassificationReportColumn, ClassificationReportSort } from "./classification-report.component.model";
+import { ClassificationReportService } from "./classification-report.service";
+
+describe("Classification report service test suite", () => {
+
+    const metricService = new MetricService(new MetricFormulaService());
+    const classificationReportService = new ClassificationReportService(metricService, new DecimalPipe('en-US'));
+    const confusionMatrix = new ConfusionMatrix({
+        labels: ['Happiness', 'Sadness'],
+        matrix: [[8, 2], [1, 3]]
+    });
+
+    it("Can calculate the metrics of each label.", () => {
+        const rows = classificationReportService.getLabelsRows(confusionMatrix);
+        expect(rows.map(row => row.label)).toEqual(['Happiness', 'Sadness']);
+        expect(rows.map(row => row.support)).toEqual([10, 4]);
+        expect(rows[0].recall).toBeCloseTo(0.8);
+        expect(rows[0].precision).toBeCloseTo(8 / 9);
+    });
+
+    it("Can add the averages with the total support.", () => {
+        const rows = classificationReportService.getAverageRows(confusionMatrix);
+        expect(rows.map(row => row.label)).toEqual(['Macro avg', 'Micro avg', 'Weighted avg']);
+        expect(rows.every(row => row.support === 14)).toBeTrue();
+    });
+
+    it("Can sort by a metric.", () => {
+        const rows = classificationReportService.getLabelsRows(confusionMatrix);
+        const sorted = classificationReportService.sort(rows, new ClassificationReportSort({
+            column: ClassificationReportColumn.Recall,
+            descending: false
+        }));
+        expect(sorted.map(row => row.label)).toEqual(['Sadness', 'Happiness']);
+    });
+
+    it("Can export to markdown.", () => {
+        const markdown = classificationReportService.convertToMarkdown(classificationReportService.getLabelsRows(confusionMatrix));
+        const lines = markdown.split('\n');
+        expect(lines[0]).toBe('| Label | Precision | Recall | F1Score | Specificity | Support |');
+        expect(lines[1]).toBe('| --- | ---: | ---: | ---: | ---: | ---: |');
+        expect(lines[2]).toBe('| Happiness | 0.89 | 0.80 | 0.84 | 0.75 | 10 |');
+    });
+});
@@ -0,0 +1,159 @@
+import { DecimalPipe } from "@angular/common";
+import { Injectable } from "@angular/core";
+import { AverageMethod, ConfusionMatrix } from "@fullexpression/confusion-matrix-stats";
+import { MetricService } from "../metrics/metric/metric.service";
+import { MetricsEnum } from "../metrics/metrics.configurations.model";
+import { ClassificationReportColumn, ClassificationReportRow, ClassificationReportSort } from "./classification-report.component.model";
+
+@Injectable()
+export class ClassificationReportService {
+
+    /**
+     * Averages added after the labels rows, in display order.
+     */
+    readonly averages = [AverageMethod.Macro, AverageMethod.Micro, AverageMethod.Weighted];
+
+    constructor(private metricService: MetricService,
+        private decimalPipe: DecimalPipe) { }
+
+    /**
+     * Calculates the metrics of each label.
+     * @param confusionMatrix The confusion matrix.
+     * @returns One row per label, in the confusion matrix labels order.
+     */
+    getLabelsRows(confusionMatrix: ConfusionMatrix): Array<ClassificationReportRow> {
+        const matrix: Array<Array<number>> = confusionMatrix.matrix;
+        return confusionMatrix.labels.map((label: string, index: number) => ({
+            ...this.getMetrics(confusionMatrix, label),
+            label,
+            support: matrix[index].reduce((sum, value) => sum + value, 0)
+        }));
+    }
+
+    /**
+     * Calculates the macro, micro and weighted averages of the metrics.
+     * @param confusionMatrix The confusion matrix.
+     * @returns One row per average.
+     */
+    getAverageRows(confusionMatrix: ConfusionMatrix): Array<ClassificationReportRow> {
+        const matrix: Array<Array<number>> = confusionMatrix.matrix;
+        const support = matrix.reduce((sum, row) => sum + row.reduce((rowSum, value) => rowSum + value, 0), 0);
+        return this.averages.map(average => ({
+            ...this.getMetrics(confusionMatrix, undefined, average),
+            label: `${this.getAverageText(average)} avg`,
+            support,
+            average
+        }));
+    }
+
+    /**
+     * Sorts the labels rows.
+     * Values that can not be calculated (NaN) go last.
+     * @param rows The rows to be sorted, they are not changed.
+     * @param sort The column and direction.
+     * @returns The sorted rows.
+     */
+    sort(rows: Array<ClassificationReportRow>, sort: ClassificationReportSort): Array<ClassificationReportRow> {
+        const direction = sort.descending ? -1 : 1;
+        return [...rows].sort((a, b) => {
+            if (sort.column === ClassificationReportColumn.Label) {
+                return direction * a.label.localeCompare(b.label);
+            }
+            const first = this.getValue(a, sort.column) as number;
+            const second = this.getValue(b, sort.column) as number;
+            if (isNaN(first) || isNaN(second)) {
+                return Number(isNaN(first)) - Number(isNaN(second));
+            }
+            return direction * (first - second);
+        });
+    }
+
+    /**
+     * Gets the value of a row column.
+     * @param row The row.
+     * @param column The column.
+     * @returns The label or the metric value.
+     */
+    getValue(row: ClassificationReportRow, column: ClassificationReportColumn): string | number {
+        switch (column) {
+            case ClassificationReportColumn.Precision:
+                return row.precision;
+            case ClassificationReportColumn.Recall:
+                return row.recall;
+            case ClassificationReportColumn.F1Score:
+                return row.f1Score;
+            case ClassificationReportColumn.Specificity:
+                return row.specificity;
+            case ClassificationReportColumn.Support:
+                return row.support;
+        }
+        return row.label;
+    }
+
+    /**
+     * Converts the report into CSV, with the values not rounded.
+     * @param rows The report rows.
+     * @returns The CSV text.
+     */
+    convertToCsv(rows: Array<ClassificationReportRow>): string {
+        const columns = Object.values(ClassificationReportColumn);
+        const lines = rows.map(row => columns.map(column => {
+            const value = String(this.getValue(row, column));
+            return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+        }).join(','));
+        return [columns.join(','), ...lines].join('\n');
+    }
+
+    /**
+     * Converts the report into a Markdown table.
+     * @param rows The report rows.
+     * @param roundRules The metrics display format, following the angular decimal pipe rules.
+     * @returns The Markdown table.
+     */
+    convertToMarkdown(rows: Array<ClassificationReportRow>, roundRules = '1.2-2'): string {
+        const columns = Object.values(ClassificationReportColumn);
+        const header = `| ${columns.join(' | ')} |`;
+        const separator = `|${columns.map(column => column === ClassificationReportColumn.Label ? ' --- ' : ' ---: ').join('|')}|`;
+        const lines = rows.map(row =>
+            `| ${columns.map(column => this.format(row, column, roundRules).replace(/\|/g, '\\|')).join(' | ')} |`);
+        return [header, separator, ...lines].join('\n');
+    }
+
+    /**
+     * Formats the value of a row column.
+     * @param row The row.
+     * @param column The column.
+     * @param roundRules The metrics display format, following the angular decimal pipe rules.
+     * @returns The formatted value.
+     */
+    format(row: ClassificationReportRow, column: ClassificationReportColumn, roundRules = '1.2-2'): string {
+        const value = this.getValue(row, column);
+        if (typeof value === 'string') {
+            return value;
+        }
+        if (isNaN(value)) {
+            return '-';
+        }
+        const rules = column === ClassificationReportColumn.Support ? '1.0-2' : roundRules;
+        return this.decimalPipe.transform(value, rules) ?? String(value);
+    }
+
+    private getMetrics(confusionMatrix: ConfusionMatrix, label?: string, average?: AverageMethod) {
+        return {
+            precision: this.metricService.calculate(confusionMatrix, MetricsEnum.Precision, average, label),
+            recall: this.metricService.calculate(confusionMatrix, MetricsEnum.Recall, average, label),
+            f1Score: this.metricService.calculate(confusionMatrix, MetricsEnum.F1Score, average, label),
+            specificity: this.metricService.calculate(confusionMatrix, MetricsEnum.Specificity, average, label)
+        };
+    }
+
+    private getAverageText(average: AverageMethod): string {
+        switch (average) {
+            case AverageMethod.Macro:
+                return 'Macro';
+            case AverageMethod.Micro:
+                return 'Micro';
+        }
+        return 'Weighted';
+    }
+}
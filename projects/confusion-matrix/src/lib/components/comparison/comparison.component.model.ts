@@ -0,0 +1,11 @@
+/**
+ * How two confusion matrices are compared.
+ */
+export enum ComparisonMode {
+    SideBySide = 'Side by side',
+
+    /**
+     * A single matrix with the compared values minus the reference ones.
+     */
+    Difference = 'Difference'
+}
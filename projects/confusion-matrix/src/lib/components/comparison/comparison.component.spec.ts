@@ -0,0 +1,20 @@
+import { ElementRef } from "@angular/core";
+import { TestBed } from "@angular/core/testing";
+import { ComparisonService } from "../../services/comparison.service";
+import { ThemeService } from "../../services/theme.service";
+import { UtilService } from "../../services/util.service";
+import { DialogService } from "../dialogs/dialog.service";
+import { ComparisonComponent } from "./comparison.component";
+import { ComparisonMode } from "./comparison.component.model";
+
+describe("Comparison component test suite", () => {
+    it("Can initialize correctly.", () => {
+        TestBed.configureTestingModule({
+            providers: [ComparisonService, UtilService, DialogService, ThemeService]
+        });
+        const comparison = new ComparisonComponent(TestBed.inject(ComparisonService), TestBed.inject(UtilService),
+            TestBed.inject(DialogService), new ElementRef(document.createElement('div')));
+        expect(comparison).toBeDefined();
+        expect(comparison.mode).toBe(ComparisonMode.SideBySide);
+    });
+});
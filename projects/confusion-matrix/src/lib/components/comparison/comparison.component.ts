@@ -0,0 +1,125 @@
+import { Component, ElementRef, EventEmitter, Input, Output } from "@angular/core";
+import { ConfusionMatrix } from "@fullexpression/confusion-matrix-stats";
+import { AlignedConfusionMatrices, ComparisonService } from "../../services/comparison.service";
+import { UtilService } from "../../services/util.service";
+import { DialogService } from "../dialogs/dialog.service";
+import { CustomSelectValue } from "../html-basics/select/custom-select.models";
+import { SignificanceComponent } from "../significance/significance.component";
+import { PairedPredictions } from "../significance/significance.component.model";
+import { ComparisonMode } from "./comparison.component.model";
+
+/**
+ * Compares two confusion matrices (e.g. two model versions on the same test set),
+ * side by side or as a difference matrix. Both are aligned by label.
+ */
+@Component({
+    selector: 'confusion-matrix-comparison',
+    templateUrl: './comparison.component.html',
+    styleUrls: ['./comparison.component.scss']
+})
+export class ComparisonComponent {
+
+    /**
+     * Reference confusion matrix.
+     */
+    @Input()
+    set confusionMatrix(value: ConfusionMatrix) {
+        this._confusionMatrix = value;
+        this.align();
+    }
+
+    get confusionMatrix(): ConfusionMatrix {
+        return this._confusionMatrix;
+    }
+
+    /**
+     * Confusion matrix compared with the reference one.
+     * Its metrics show the deltas and the difference is its values minus the reference ones.
+     */
+    @Input()
+    set comparedConfusionMatrix(value: ConfusionMatrix) {
+        this._comparedConfusionMatrix = value;
+        this.align();
+    }
+
+    get comparedConfusionMatrix(): ConfusionMatrix {
+        return this._comparedConfusionMatrix;
+    }
+
+    @Input()
+    mode = ComparisonMode.SideBySide;
+
+    @Output()
+    modeChange = new EventEmitter<ComparisonMode>();
+
+    @Input()
+    title = 'Reference';
+
+    @Input()
+    comparedTitle = 'Compared';
+
+    @Input()
+    levelsColors = new Array<string>();
+
+    @Input()
+    roundRules = '1.0-2';
+
+    @Input()
+    zoom = 1;
+
+    /**
+     * Predictions of both classifiers on the same samples, the significance tests are available when defined.
+     */
+    @Input()
+    pairedPredictions?: PairedPredictions;
+
+    aligned: AlignedConfusionMatrices;
+
+    modes: Array<CustomSelectValue> = Object.values(ComparisonMode).map(mode => ({ id: mode, text: mode }));
+
+    private _confusionMatrix = new ConfusionMatrix();
+    private _comparedConfusionMatrix = new ConfusionMatrix();
+
+    constructor(private comparisonService: ComparisonService,
+        private utilService: UtilService,
+        private dialogService: DialogService,
+        private host: ElementRef) {
+        this.aligned = this.comparisonService.align(this._confusionMatrix, this._comparedConfusionMatrix);
+    }
+
+    get selectedMode(): CustomSelectValue {
+        return { id: this.mode, text: this.mode };
+    }
+
+    get isDifference(): boolean {
+        return this.mode === ComparisonMode.Difference;
+    }
+
+    get comparedMatrixTitle(): string {
+        return this.isDifference ? `${this.comparedTitle} - ${this.title}` : this.comparedTitle;
+    }
+
+    modeChanged(value: CustomSelectValue | undefined) {
+        if (value) {
+            this.mode = value.id as ComparisonMode;
+            this.modeChange.emit(this.mode);
+        }
+    }
+
+    differenceChanged(showDifference: boolean) {
+        this.mode = showDifference ? ComparisonMode.Difference : ComparisonMode.SideBySide;
+        this.modeChange.emit(this.mode);
+    }
+
+    showSignificanceTests() {
+        const significance = this.utilService.getComponentReference<SignificanceComponent>(SignificanceComponent);
+        significance.instance.title = this.title;
+        significance.instance.comparedTitle = this.comparedTitle;
+        significance.instance.predictions = this.pairedPredictions;
+        this.dialogService.show(significance, this.host.nativeElement);
+    }
+
+    private align() {
+        this.aligned = this.comparisonService.align(this._confusionMatrix, this._comparedConfusionMatrix);
+    }
+}
@@ -9,5 +9,17 @@ export enum ConfigurationsOption {
     Save,
     Import,
     Metrics,
-    Normalization
+    Normalization,
+    SaveCsv,
+    SaveTsv,
+    ImportCsv,
+    ImportPredictions,
+    DisplayMode,
+    SeparateErrorColors,
+    Difference,
+    ClassificationReport,
+    LabelGroups,
+    EditLabels,
+    ReorderLabels,
+    HighContrast
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { animate, style, transition, trigger } from "@angular/animations";
 import { Component, EventEmitter, Input, Output } from "@angular/core";
 import { ConfigurationsOption } from "./configurations.component.model";
+import { DisplayMode } from "../confusion-matrix.component.model";
 
 @Component({
     selector: 'configurations',
@@ -29,6 +30,36 @@ export class ConfigurationsComponent {
     @Output()
     metricsToggleChange = new EventEmitter<boolean>();
 
+    /**
+     * Whether the errors have their own colors, shown in the error colors option.
+     */
+    @Input()
+    errorColorsToggle = false;
+
+    /**
+     * Whether there is a compared confusion matrix, so the difference option is available.
+     */
+    @Input()
+    comparing = false;
+
+    /**
+     * Whether the differences with the compared confusion matrix are displayed.
+     */
+    @Input()
+    differenceToggle = false;
+
+    /**
+     * Current display mode, shown in the display mode option.
+     */
+    @Input()
+    displayMode = DisplayMode.Count;
+
+    /**
+     * Whether the high contrast theme is used, shown in the high contrast option.
+     */
+    @Input()
+    highContrastToggle = false;
+
     get configurationsOptions(): typeof ConfigurationsOption {
         return ConfigurationsOption;
     }
@@ -56,5 +87,16 @@ export class ConfigurationsComponent {
         this.optionChange.emit(this.option);
     }
 
+    /**
+     * Activates the focused option with Enter or Space, as a button.
+     */
+    optionKeyDown(event: KeyboardEvent) {
+        const option = (event.target as HTMLElement).closest('.option') as HTMLElement | null;
+        if (option && (event.key === 'Enter' || event.key === ' ')) {
+            event.preventDefault();
+            option.click();
+        }
+    }
+
 
 }
\ No newline at end of file
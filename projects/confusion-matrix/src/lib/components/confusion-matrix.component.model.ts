@@ -0,0 +1,65 @@
+/**
+ * How the confusion matrix values are displayed.
+ * Only the display changes, the confusion matrix values and metrics are not affected.
+ */
+export enum DisplayMode {
+    Count = 'Count',
+    RowPercentage = 'Row %',
+    ColumnPercentage = 'Column %',
+    TotalPercentage = 'Total %'
+}
+
+/**
+ * Information about a confusion matrix value, shown in the cell tooltip.
+ * Rows hold the actual labels and columns the predicted ones.
+ */
+export interface CellInformation {
+    row: number;
+    column: number;
+    actual: string;
+    predicted: string;
+    value: number;
+
+    /**
+     * Value divided by its row sum (recall share).
+     */
+    rowPercentage: number;
+
+    /**
+     * Value divided by its column sum (precision share).
+     */
+    columnPercentage: number;
+
+    /**
+     * Value divided by the sum of all values.
+     */
+    totalPercentage: number;
+
+    /**
+     * Value of the compared confusion matrix with the same labels, when comparing.
+     */
+    comparedValue?: number;
+}
+
+/**
+ * Context given to custom cell tooltip templates.
+ */
+export interface CellTooltipContext {
+    $implicit: CellInformation;
+}
+
+/**
+ * A confusion matrix value position, rows holding the actual labels.
+ */
+export interface CellPosition {
+    row: number;
+    column: number;
+}
+
+/**
+ * Rectangular block of selected values, from the anchor (where the selection started) to the focused value.
+ */
+export interface CellSelection {
+    anchor: CellPosition;
+    focus: CellPosition;
+}
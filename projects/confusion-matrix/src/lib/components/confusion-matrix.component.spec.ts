@@ -1,9 +1,26 @@
 import { DecimalPipe } from "@angular/common";
 import { ComponentFixture, TestBed } from "@angular/core/testing";
+import { ConfusionMatrix } from "@fullexpression/confusion-matrix-stats";
 import { DownloadService } from "../services/download.service";
 import { ImportService } from "../services/import.service";
 import { ConfusionMatrixComponent } from "./confusion-matrix.component";
+import { LabelOrder } from "./label-order/label-order.component.model";
 import { IntensityBarService } from "./intensity-bar/intensity-bar.service";
+import { CsvService } from "../services/csv.service";
+import { DialogService } from "./dialogs/dialog.service";
+import { UtilService } from "../services/util.service";
+import { PredictionsService } from "../services/predictions.service";
+import { ExportService } from "../services/export.service";
+import { MetricService } from "./metrics/metric/metric.service";
+import { MetricFormulaService } from "./metrics/metric/metric-formula.service";
+import { ColorService } from "../services/color.service";
+import { ComparisonService } from "../services/comparison.service";
+import { WorkspaceService } from "../services/workspace.service";
+import { LabelGroupsService } from "./label-groups/label-groups.service";
+import { LabelMappingService } from "../services/label-mapping.service";
+import { LabelOrderService } from "./label-order/label-order.service";
+import { CellEditService } from "../services/cell-edit.service";
+import { ThemeService } from "../services/theme.service";
 
 describe("Statistic models test suite", () => {
 
@@ -13,7 +30,10 @@ describe("Statistic models test suite", () => {
     beforeEach(() => {
         TestBed.configureTestingModule({
             declarations: [ConfusionMatrixComponent],
-            providers: [DecimalPipe, DownloadService, ImportService, IntensityBarService]
+            providers: [DecimalPipe, DownloadService, ImportService, IntensityBarService, CsvService,
+                DialogService, UtilService, PredictionsService, ExportService, MetricService,
+                ColorService, ComparisonService, MetricFormulaService, WorkspaceService,
+                LabelGroupsService, LabelMappingService, LabelOrderService, CellEditService, ThemeService]
         });
         fixture = TestBed.createComponent(ConfusionMatrixComponent);
         component = fixture.componentInstance;
@@ -22,4 +42,67 @@ describe("Statistic models test suite", () => {
     it("Can initialize correctly.", () => {
         expect(component).toBeDefined();
     });
-});
\ No newline at end of file
+
+    it("Can rename a label and undo it.", () => {
+        component.confusionMatrix = new ConfusionMatrix({ labels: ['Happiness', 'Sadness'], matrix: [[5, 1], [2, 7]] });
+        component.renameLabel('Sadness', 'Anger');
+        expect(component.confusionMatrix.labels).toEqual(['Happiness', 'Anger']);
+        expect(component.confusionMatrix.matrix).toEqual([[5, 1], [2, 7]]);
+
+        component.undo();
+        expect(component.confusionMatrix.labels).toEqual(['Happiness', 'Sadness']);
+        expect(component.confusionMatrix.matrix).toEqual([[5, 1], [2, 7]]);
+
+        component.redo();
+        expect(component.confusionMatrix.labels).toEqual(['Happiness', 'Anger']);
+    });
+
+    it("Can undo and redo a merge at once.", () => {
+        component.confusionMatrix = new ConfusionMatrix({
+            labels: ['Happiness', 'Sadness', 'Anger'],
+            matrix: [[5, 1, 0], [2, 7, 1], [0, 3, 4]]
+        });
+        component.mergeLabels('Anger', 'Sadness');
+        expect(component.confusionMatrix.labels).toEqual(['Happiness', 'Sadness']);
+        expect(component.confusionMatrix.matrix).toEqual([[5, 1], [2, 15]]);
+
+        component.undo();
+        expect(component.confusionMatrix.labels).toEqual(['Happiness', 'Sadness', 'Anger']);
+        expect(component.confusionMatrix.matrix).toEqual([[5, 1, 0], [2, 7, 1], [0, 3, 4]]);
+
+        component.redo();
+        expect(component.confusionMatrix.labels).toEqual(['Happiness', 'Sadness']);
+        expect(component.confusionMatrix.matrix).toEqual([[5, 1], [2, 15]]);
+    });
+
+    it("Can reorder the labels and undo it, each label with its own values.", () => {
+        component.confusionMatrix = new ConfusionMatrix({
+            labels: ['Sadness', 'Anger', 'Happiness'],
+            matrix: [[7, 1, 2], [3, 4, 0], [1, 0, 5]]
+        });
+        component.reorderLabels(LabelOrder.Alphabetical);
+        expect(component.confusionMatrix.labels).toEqual(['Anger', 'Happiness', 'Sadness']);
+        expect(component.confusionMatrix.matrix).toEqual([[4, 0, 3], [0, 5, 1], [1, 2, 7]]);
+
+        component.undo();
+        expect(component.confusionMatrix.labels).toEqual(['Sadness', 'Anger', 'Happiness']);
+        expect(component.confusionMatrix.matrix).toEqual([[7, 1, 2], [3, 4, 0], [1, 0, 5]]);
+
+        component.redo();
+        expect(component.confusionMatrix.labels).toEqual(['Anger', 'Happiness', 'Sadness']);
+        expect(component.confusionMatrix.matrix).toEqual([[4, 0, 3], [0, 5, 1], [1, 2, 7]]);
+    });
+
+    it("Clears the previous samples when the predictions have none.", () => {
+        component.predictions = { actual: ['Cat', 'Dog'], predicted: ['Cat', 'Cat'], samples: ['a.png', 'b.png'] };
+        expect(component.cellSamples).toEqual({ Cat: { Cat: ['a.png'] }, Dog: { Cat: ['b.png'] } });
+
+        component.predictions = { actual: ['Cat', 'Dog'], predicted: ['Cat', 'Dog'] };
+        expect(component.confusionMatrix.matrix).toEqual([[1, 0], [0, 1]]);
+        expect(component.cellSamples).toEqual({});
+
+        component.predictions = { actual: ['Cat'], predicted: ['Cat'], samples: ['a.png'] };
+        component.predictions = undefined;
+        expect(component.cellSamples).toEqual({});
+    });
+});
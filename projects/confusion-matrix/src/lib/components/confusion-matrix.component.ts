@@ -1,14 +1,39 @@
 
-import { AfterViewInit, ChangeDetectorRef, Component, ElementRef, EventEmitter, Input, Output, ViewChild } from '@angular/core';
-import { ConfusionMatrix } from '@fullexpression/confusion-matrix-stats';
+import { AfterViewInit, ChangeDetectorRef, Component, ElementRef, EventEmitter, Input, Output, TemplateRef, ViewChild } from '@angular/core';
+import { AverageMethod, ConfusionMatrix } from '@fullexpression/confusion-matrix-stats';
 import { DecimalPipe } from '@angular/common';
 import { animate, style, transition, trigger } from '@angular/animations';
 import { ConfigurationsOption } from './configurations/configurations.component.model';
-import * as html2canvas from "html2canvas";
 import { confusionMatrixAnimations } from './confusion-matrix.animations';
 import { DownloadService } from '../services/download.service';
-import { ImportService } from '../services/import.service';
+import { ImportError, ImportService } from '../services/import.service';
 import { IntensityBarService } from './intensity-bar/intensity-bar.service';
+import { IntensityPalettes, IntensityScale } from './intensity-bar/intensity-bar.models';
+import { CsvService } from '../services/csv.service';
+import { DialogService } from './dialogs/dialog.service';
+import { UtilService } from '../services/util.service';
+import { ErrorMessageComponent } from './dialogs/error-message/error-message.component';
+import { Predictions, PredictionsService } from '../services/predictions.service';
+import { ExportService } from '../services/export.service';
+import { ColorService } from '../services/color.service';
+import { ComparisonService } from '../services/comparison.service';
+import { ExportOptions } from './export/export.component.model';
+import { MetricsPanelComponent } from './metrics/panel/metrics-panel.component';
+import { MetricService } from './metrics/metric/metric.service';
+import { CellClickEvent, CellSample, CellSamples } from './cell-samples/cell-samples.component.model';
+import { CellSamplesComponent } from './cell-samples/cell-samples.component';
+import { ClassificationReportComponent } from './classification-report/classification-report.component';
+import { CellInformation, CellPosition, CellSelection, CellTooltipContext, DisplayMode } from './confusion-matrix.component.model';
+import { Workspace, WorkspaceService } from '../services/workspace.service';
+import { ConfidenceIntervalOptions, MetricParameters, MetricStyleConfiguration } from './metrics/metric/metric.models';
+import { LabelGroupsService } from './label-groups/label-groups.service';
+import { DisplayedLabel, LabelGroup, LabelGroupSpan } from './label-groups/label-groups.component.model';
+import { LabelMapping, LabelMappingService } from '../services/label-mapping.service';
+import { DendrogramLine, DendrogramNode, LabelOrder } from './label-order/label-order.component.model';
+import { LabelOrderService } from './label-order/label-order.service';
+import { MatrixCanvasComponent } from './matrix-canvas/matrix-canvas.component';
+import { CellEditService } from '../services/cell-edit.service';
+import { Theme, ThemeService } from '../services/theme.service';
 
 /**
  * Component which helps to visualize a confusion matrix.
@@ -18,10 +43,14 @@ import { IntensityBarService } from './intensity-bar/intensity-bar.service';
     selector: 'confusion-matrix',
     templateUrl: './confusion-matrix.component.html',
     styleUrls: ['./confusion-matrix.component.scss'],
-    animations: confusionMatrixAnimations
+    animations: confusionMatrixAnimations,
+    // Each confusion matrix has its own intensity range and colors.
+    providers: [IntensityBarService, ExportService]
 })
 export class ConfusionMatrixComponent implements AfterViewInit {
 
+    private static instances = 0;
+
     /**
      * Sets the confusion matrix title.
      * If undefined, the title reserved space will be hidden.
@@ -53,15 +82,86 @@ export class ConfusionMatrixComponent implements AfterViewInit {
     @Output()
     levelsColorsChange = new EventEmitter<Array<string>>()
 
+    /**
+     * Sets how the values are mapped into the levels colors: linear, log or power scale,
+     * with discrete or continuous colors.
+     * The built-in palettes (viridis, magma, cividis...) are available in IntensityPalettes.
+     */
+    @Input()
+    intensityScale = new IntensityScale();
+
+    @Output()
+    intensityScaleChange = new EventEmitter<IntensityScale>();
+
+    /**
+     * When true, the correct predictions (diagonal) and the errors use independent colors and ranges,
+     * so the errors are not washed out by the diagonal values.
+     */
+    @Input()
+    separateErrorColors = false;
+
+    @Output()
+    separateErrorColorsChange = new EventEmitter<boolean>();
+
+    /**
+     * Sets the errors color levels, used when the error colors are separated.
+     * Should be order asc from less intense (close to 0) to max intense (close to max error).
+     */
+    @Input()
+    errorLevelsColors = ['#fff5f0', '#fcbba1', '#fb6a4a', '#cb181d', '#67000d'];
+
+    @Output()
+    errorLevelsColorsChange = new EventEmitter<Array<string>>();
+
+    /**
+     * Confusion matrix compared with this one, e.g. another model version on the same test set.
+     * The metrics panel shows the metrics deltas and the difference display shows this confusion matrix values
+     * minus the compared ones. Values are matched by label, labels the compared confusion matrix does not have count as 0.
+     */
+    @Input()
+    set comparedConfusionMatrix(value: ConfusionMatrix | undefined) {
+        this._comparedConfusionMatrix = value;
+        this.refreshDisplayValues();
+    }
+
+    get comparedConfusionMatrix(): ConfusionMatrix | undefined {
+        return this._comparedConfusionMatrix;
+    }
+
+    /**
+     * When true and there is a compared confusion matrix, the differences with it are displayed.
+     */
+    @Input()
+    set showDifference(showDifference: boolean) {
+        this._showDifference = showDifference;
+        this.refreshDisplayValues();
+    }
+
+    get showDifference(): boolean {
+        return this._showDifference;
+    }
+
+    @Output()
+    showDifferenceChange = new EventEmitter<boolean>();
+
+    /**
+     * Sets the color levels used to display the differences, from the most negative to the most positive.
+     * Should be a diverging palette, with a neutral middle color for 0.
+     */
+    @Input()
+    differenceLevelsColors = [...(IntensityPalettes.find(palette => palette.name === 'Red-Blue')?.colors ?? [])];
+
+    @Output()
+    differenceLevelsColorsChange = new EventEmitter<Array<string>>();
+
     /**
      * Sets the confusion matrix labels and values.
      */
     @Input()
     set confusionMatrix(value: ConfusionMatrix) {
         this._confusionMatrix = value.clone();
-        this._confusionMatrixTransposed = this._confusionMatrix.clone();
-        this._confusionMatrixTransposed.transpose();
         this.dragHighlight = new Array();
+        this.refreshDisplayValues();
     }
 
     get confusionMatrix(): ConfusionMatrix {
@@ -71,6 +171,115 @@ export class ConfusionMatrixComponent implements AfterViewInit {
     @Output()
     confusionMatrixChange = new EventEmitter<ConfusionMatrix>()
 
+    /**
+     * Label groups (super-classes), shown as bracket headers along both axes.
+     * A collapsed group rows and columns are summed into one. Groups are never collapsed in edition mode.
+     */
+    @Input()
+    set labelGroups(labelGroups: Array<LabelGroup>) {
+        this._labelGroups = labelGroups ?? [];
+        this.refreshDisplayValues();
+    }
+
+    get labelGroups(): Array<LabelGroup> {
+        return this._labelGroups;
+    }
+
+    @Output()
+    labelGroupsChange = new EventEmitter<Array<LabelGroup>>();
+
+    /**
+     * Builds the confusion matrix from raw predictions (pairs of actual and predicted labels).
+     * The labels and values are calculated automatically and replace the current confusion matrix.
+     * Prediction samples, if any, are used as the values samples; otherwise the previous values samples are cleared.
+     */
+    @Input()
+    set predictions(predictions: Predictions | undefined) {
+        if (predictions) {
+            this.confusionMatrix = new ConfusionMatrix(this.predictionsService.buildConfusionMatrix(predictions));
+        }
+        this.cellSamples = predictions?.samples ? this.predictionsService.buildCellSamples(predictions) : {};
+    }
+
+    /**
+     * Optional samples behind each value (e.g. sample ids, file paths or thumbnails),
+     * indexed by row label and then by column label.
+     * When a value with samples is clicked in view mode, the samples are listed in a dialog.
+     */
+    @Input()
+    cellSamples: CellSamples = {};
+
+    /**
+     * Whether clicking a value with samples opens the samples dialog.
+     * Disable it to handle the `cellClick` event with a custom viewer.
+     */
+    @Input()
+    showCellSamples = true;
+
+    /**
+     * Emitted when a value is clicked in view mode.
+     */
+    @Output()
+    cellClick = new EventEmitter<CellClickEvent>();
+
+    /**
+     * How the values are displayed: counts, row percentages (recall), column percentages (precision)
+     * or percentage of the total. The confusion matrix values and metrics are not changed.
+     */
+    @Input()
+    set displayMode(displayMode: DisplayMode) {
+        this._displayMode = displayMode;
+        this.refreshDisplayValues();
+    }
+
+    get displayMode(): DisplayMode {
+        return this._displayMode;
+    }
+
+    @Output()
+    displayModeChange = new EventEmitter<DisplayMode>();
+
+    /**
+     * High contrast theme: stronger borders and text, and a bar showing each value magnitude,
+     * so values can be told apart without relying on their color.
+     */
+    @Input()
+    highContrast = false;
+
+    @Output()
+    highContrastChange = new EventEmitter<boolean>();
+
+    /**
+     * Colors of the confusion matrix, its panels and dialogs, e.g. `Themes.Dark`.
+     * The theme is set on this component only, and on the dialogs it shows.
+     * Themes can also be set with the `--cm-*` CSS custom properties, see `ThemeService`.
+     */
+    @Input()
+    set theme(theme: Theme | undefined) {
+        this._theme = theme;
+        if (theme) {
+            this.themeService.apply(theme, this.host.nativeElement);
+        }
+    }
+
+    get theme(): Theme | undefined {
+        return this._theme;
+    }
+
+    /**
+     * Whether a tooltip with the value details is shown when hovering a value.
+     * The hovered value row and column are highlighted as well.
+     */
+    @Input()
+    showTooltip = true;
+
+    /**
+     * Optional template to customize the tooltip content.
+     * The template context `$implicit` is the hovered value `CellInformation`.
+     */
+    @Input()
+    tooltipTemplate: TemplateRef<CellTooltipContext> | undefined;
+
     /**
      * Allows to define the numbers display format.
      * If follows the angular decimal pipes rules: 
@@ -79,22 +288,50 @@ export class ConfusionMatrixComponent implements AfterViewInit {
     @Input()
     roundRules = '1.0-2';
 
+    /**
+     * Above this number of displayed labels, the values are drawn on a canvas showing only the visible region,
+     * panned and zoomed with the mouse. Values are never drawn on a canvas in edition mode.
+     */
+    @Input()
+    set virtualizationThreshold(threshold: number) {
+        this._virtualizationThreshold = threshold;
+        this.refreshDisplayValues();
+    }
+
+    get virtualizationThreshold(): number {
+        return this._virtualizationThreshold;
+    }
+
     /**
      * Confusion matrix row dom element reference.
      */
     @ViewChild('rows') rows: ElementRef | undefined;
 
     /**
-     * Confusion matrix wrapper dom element reference.
+     * Metrics panel reference, used to export the configured metrics.
      */
-    @ViewChild('confusionMatrix') confusionMatrixElement: ElementRef | undefined;
+    @ViewChild(MetricsPanelComponent) metricsPanel: MetricsPanelComponent | undefined;
+
+    /**
+     * Canvas drawing the values of large confusion matrices.
+     */
+    @ViewChild(MatrixCanvasComponent) matrixCanvas: MatrixCanvasComponent | undefined;
+
+    /**
+     * Format, file name and resolution used when downloading the confusion matrix.
+     */
+    @Input()
+    exportOptions = new ExportOptions();
 
     /**
      * Gets the intensity bar height.
      * @return Gets the intensity height in pixels.
      */
     get intensityHeight(): number {
-        return this.getSquareSize() * this._confusionMatrix.matrix.length;
+        if (this.virtualized) {
+            return this.matrixCanvas?.matrixSize ?? 0;
+        }
+        return this.getSquareSize() * this._viewConfusionMatrix.matrix.length;
     }
 
     get scale(): string {
@@ -123,17 +360,127 @@ export class ConfusionMatrixComponent implements AfterViewInit {
 
     showNormalizationConfiguration = false;
 
-    _confusionMatrixTransposed = new ConfusionMatrix();
+    showExportConfiguration = false;
+
+    /**
+     * The confusion matrix displayed: the confusion matrix with the collapsed label groups summed.
+     */
+    _viewConfusionMatrix = new ConfusionMatrix();
+
+    _viewConfusionMatrixTransposed = new ConfusionMatrix();
+
+    /**
+     * The confusion matrix with all the label groups collapsed, for the super-classes metrics.
+     */
+    _groupedConfusionMatrix: ConfusionMatrix | undefined;
+
+    _groupedComparedConfusionMatrix: ConfusionMatrix | undefined;
+
+    /**
+     * The displayed labels, with the confusion matrix labels behind each one.
+     */
+    displayedLabels = new Array<DisplayedLabel>();
+
+    labelGroupSpans = new Array<LabelGroupSpan>();
+
+    showLabelGroupsConfiguration = false;
+
+    showLabelEdit = false;
+
+    showLabelOrderConfiguration = false;
+
+    /**
+     * When true, the clustering dendrogram is drawn along the rows, while the labels keep the clustering order.
+     */
+    showDendrogram = true;
+
+    readonly dendrogramWidth = 60;
+
+    dendrogramLines = new Array<DendrogramLine>();
+
+    labelSearch = '';
+
+    /**
+     * Index of the label found by the search, its row and column are highlighted.
+     */
+    focusedLabel: number | undefined;
+
+    /**
+     * Values selected in edition mode, copied and pasted as a block.
+     */
+    selection: CellSelection | undefined;
+
+    /**
+     * The last invalid value typed, with the reason, shown under its cell.
+     */
+    cellError: (CellPosition & { message: string }) | undefined;
+
+    /**
+     * Cell callbacks given to the canvas, bound to this component.
+     */
+    readonly canvasCellColor = (row: number, column: number) => this.getCellColor(row, column);
+    readonly canvasCellTextColor = (row: number, column: number) => this.getCellTextColor(row, column);
+    readonly canvasCellText = (row: number, column: number) => this.getDisplayText(row, column);
+    readonly canvasCellLabel = (row: number, column: number) => this.getCellLabel(row, column);
+
+    /**
+     * Prefix of the headers and values ids, unique to each confusion matrix of the page.
+     */
+    readonly idPrefix = `confusion-matrix-${++ConfusionMatrixComponent.instances}`;
+
+    /**
+     * Ids of the column headers, and of each row header followed by the row values,
+     * owned by the screen reader grid rows: the values are laid out by column.
+     */
+    ariaColumnHeaders = '';
+    ariaRows = new Array<string>();
+
+    /**
+     * The last labels clustering, drawn as a dendrogram.
+     */
+    private dendrogram: DendrogramNode | undefined;
 
     private originalWidth = 0;
     private originalHeight = 0;
     private _zoom = 1;
+    private _displayMode = DisplayMode.Count;
+    private _comparedConfusionMatrix: ConfusionMatrix | undefined;
+    private _showDifference = false;
+    private _labelGroups = new Array<LabelGroup>();
+    private _virtualizationThreshold = 100;
+    private _theme: Theme | undefined;
+
+    /**
+     * Edits that can take several history steps, with the confusion matrix state before and after them.
+     */
+    private compositeEdits = new Array<{ before: string, after: string }>();
+    private undoneCompositeEdits = new Array<{ before: string, after: string }>();
     private fullyInitialized = false;
     private numberOfItemsAdded = 0;
     private dragIndex = -1;
 
+    /**
+     * Incremented each time the displayed values are recalculated.
+     */
+    private displayValuesVersion = 0;
+
     dragHighlight = new Array<boolean>();
 
+    /**
+     * Values displayed for each confusion matrix value, according to the display mode.
+     */
+    displayValues = new Array<Array<number>>();
+
+    /**
+     * The largest displayed value, in absolute value.
+     */
+    maxDisplayValue = 0;
+
+    /**
+     * Information about the value under the mouse, if any.
+     */
+    hoveredCell: CellInformation | undefined;
+
     /**
      * Constructs the confusion matrix.
      * @decimalPipe Decimal angular service injected using dependency injection.
@@ -143,10 +490,25 @@ export class ConfusionMatrixComponent implements AfterViewInit {
         private downloadService: DownloadService,
         private importService: ImportService,
         private intensityBarService: IntensityBarService,
-        private detectChanges: ChangeDetectorRef) {
+        private detectChanges: ChangeDetectorRef,
+        private csvService: CsvService,
+        private dialogService: DialogService,
+        private utilService: UtilService,
+        private predictionsService: PredictionsService,
+        private exportService: ExportService,
+        private metricService: MetricService,
+        private colorService: ColorService,
+        private comparisonService: ComparisonService,
+        private workspaceService: WorkspaceService,
+        private labelGroupsService: LabelGroupsService,
+        private labelMappingService: LabelMappingService,
+        private labelOrderService: LabelOrderService,
+        private cellEditService: CellEditService,
+        private themeService: ThemeService) {
 
         this.confusionMatrixChange.subscribe(() => {
             new Array(this._confusionMatrix.labels.length);
+            this.refreshDisplayValues();
         });
     }
 
@@ -160,10 +522,12 @@ export class ConfusionMatrixComponent implements AfterViewInit {
 
     /**
      * Given a value, returns the color intensity associated with.
+     * @param value The value.
+     * @param error True if the value is an error (outside the diagonal).
      * @return Color intensity in hexadecimal.
      */
-    getColor(value: number): string {
-        return this.intensityBarService.getColor(value);
+    getColor(value: number, error = false): string {
+        return this.intensityBarService.getColor(value, error);
     }
 
     getTranspose(): ConfusionMatrix {
@@ -173,17 +537,28 @@ export class ConfusionMatrixComponent implements AfterViewInit {
     }
 
     /**
-     * Downloads a image of the confusion matrix.
-     * IT IS NOT YET FULLY IMPLEMENTED. BETA ONLY!
+     * Downloads an image (SVG or PNG) or a PDF of the confusion matrix.
+     * The grid, labels, title and intensity bar are drawn as vector shapes, independently of the current zoom.
+     * @param options Format, file name, PNG resolution and whether the metrics are included.
      */
-    download() {
-        (html2canvas as any)(this.confusionMatrixElement?.nativeElement).then((canvas: any) => {
-            const link = document.createElement('a');
-            link.download = 'confusion-matrix.png';
-            link.href = canvas.toDataURL()
-            link.click();
-            link.remove();
-        });
+    async download(options = this.exportOptions) {
+        const metrics = options.includeMetrics ? this.getMetricsValues() : [];
+        let file: Blob;
+        try {
+            file = await this.exportService.export({
+                confusionMatrix: this._viewConfusionMatrix,
+                values: this.displayValues,
+                suffix: this.isPercentageDisplay ? '%' : '',
+                title: this.title,
+                roundRules: this.isPercentageDisplay ? '1.0-1' : this.roundRules,
+                metrics
+            }, options);
+        } catch (error) {
+            this.showError('Unable to download', error?.message ?? String(error));
+            return;
+        }
+        const filename = options.filename.replace(/\.(svg|png|pdf)$/i, '') || 'confusion-matrix';
+        this.downloadService.downloadBlob(file, `${filename}.${options.format.toLowerCase()}`);
     }
 
     optionChanged(option: ConfigurationsOption) {
@@ -193,7 +568,7 @@ export class ConfusionMatrixComponent implements AfterViewInit {
                 this.zoomIn();
                 break;
             case ConfigurationsOption.Download:
-                this.download();
+                this.showExportConfiguration = true;
                 break;
             case ConfigurationsOption.ZoomOut:
                 this.zoomOut();
@@ -203,11 +578,18 @@ export class ConfusionMatrixComponent implements AfterViewInit {
                 break;
             case ConfigurationsOption.View:
                 this.editionMode = false;
+                this.selection = undefined;
+                this.cellError = undefined;
                 this.updateZoomValue(this._zoom);
+                this.refreshDisplayValues();
                 break;
             case ConfigurationsOption.Edit:
                 this.editionMode = true;
                 this.updateZoomValue(this._zoom);
+                this.refreshDisplayValues();
+                break;
+            case ConfigurationsOption.DisplayMode:
+                this.changeDisplayMode(this.getNextDisplayMode());
                 break;
             case ConfigurationsOption.Save:
                 this.save();
@@ -218,30 +600,525 @@ export class ConfusionMatrixComponent implements AfterViewInit {
             case ConfigurationsOption.Normalization:
                 this.showNormalizationConfiguration = true;
                 break;
+            case ConfigurationsOption.SaveCsv:
+                this.saveAsCsv();
+                break;
+            case ConfigurationsOption.SaveTsv:
+                this.saveAsCsv('\t');
+                break;
+            case ConfigurationsOption.ImportCsv:
+                this.importCsv();
+                break;
+            case ConfigurationsOption.ImportPredictions:
+                this.importPredictions();
+                break;
+            case ConfigurationsOption.SeparateErrorColors:
+                this.changeSeparateErrorColors();
+                break;
+            case ConfigurationsOption.Difference:
+                this.changeShowDifference();
+                break;
+            case ConfigurationsOption.ClassificationReport:
+                this.showClassificationReport();
+                break;
+            case ConfigurationsOption.LabelGroups:
+                this.showLabelGroupsConfiguration = true;
+                break;
+            case ConfigurationsOption.EditLabels:
+                this.showLabelEdit = true;
+                break;
+            case ConfigurationsOption.ReorderLabels:
+                this.showLabelOrderConfiguration = true;
+                break;
+            case ConfigurationsOption.HighContrast:
+                this.highContrast = !this.highContrast;
+                this.highContrastChange.emit(this.highContrast);
+                break;
 
         }
     }
+    /**
+     * Zooms in. Large confusion matrices drawn on a canvas are zoomed around the center of the visible values.
+     */
     zoomIn() {
+        if (this.virtualized && this.matrixCanvas) {
+            this.matrixCanvas.zoom(this.matrixCanvas.cellSize * 1.25);
+            return;
+        }
         this._zoom += 0.1;
         this.zoomChange.emit(this._zoom);
     }
 
     zoomOut() {
+        if (this.virtualized && this.matrixCanvas) {
+            this.matrixCanvas.zoom(this.matrixCanvas.cellSize / 1.25);
+            return;
+        }
         this._zoom -= 0.1;
         this.zoomChange.emit(this._zoom);
     }
 
-    matrixValueChange(event: any, row: number, column: number) {
-        const value = parseInt(event.target.innerText);
-        if (!isNaN(value)) {
-            this._confusionMatrix.matrix[row][column] = value;
-            this._confusionMatrix.matrix = this._confusionMatrix.matrix;
+    /**
+     * Scrolls to a label and highlights its row and column.
+     * @param text The label searched: the exact label (ignoring case), otherwise the first label containing it.
+     */
+    jumpToLabel(text: string) {
+        this.labelSearch = text;
+        const searched = text.trim().toLowerCase();
+        const labels: Array<string> = this._viewConfusionMatrix.labels.map((label: string) => label.toLowerCase());
+        const exact = labels.indexOf(searched);
+        const index = exact >= 0 ? exact : labels.findIndex(label => label.includes(searched));
+        this.focusedLabel = searched && index >= 0 ? index : undefined;
+        if (this.focusedLabel !== undefined) {
+            this.matrixCanvas?.showLabel(this.focusedLabel);
+        }
+    }
+
+    /**
+     * Commits the value typed in a cell. An invalid value is reverted and the reason is shown under the cell.
+     * Decimals are accepted when the confusion matrix already holds decimal values (normalized or weighted).
+     * @returns False if the value typed is not valid.
+     */
+    matrixValueChange(event: any, row: number, column: number): boolean {
+        const text: string = event.target.innerText ?? '';
+        if (text.trim() === this.getDisplayText(row, column)) {
+            return true;
+        }
+        let value: number;
+        try {
+            value = this.cellEditService.parseValue(text, this.cellEditService.hasDecimals(this._confusionMatrix.matrix));
+        } catch (error) {
+            event.target.innerText = this.getDisplayText(row, column);
+            this.cellError = { row, column, message: error.message };
+            return false;
+        }
+        this.cellError = undefined;
+        if (value !== this._confusionMatrix.matrix[row][column]) {
+            // A new matrix, so the views keyed on its reference (e.g. the metrics confidence intervals) are refreshed.
+            const matrix: Array<Array<number>> = this.deepCopy(this._confusionMatrix.matrix);
+            matrix[row][column] = value;
+            this._confusionMatrix.matrix = matrix;
             this.confusionMatrixChange.emit(this._confusionMatrix);
+        }
+        return true;
+    }
+
+    /**
+     * Spreadsheet-like keys in edition mode: arrows move between values (with shift, they extend the selection),
+     * Enter and Tab commit and move down or right (with shift, up or left), Escape cancels the value typed.
+     * In view mode, arrows move between values and Enter or Space clicks the focused value.
+     */
+    cellKeyDown(event: any, row: number, column: number) {
+        if (!this.editionMode) {
+            this.viewCellKeyDown(event, row, column);
+            return;
+        }
+        if (event.key === 'Escape') {
+            event.target.innerText = this.getDisplayText(row, column);
+            this.cellError = undefined;
+            event.target.blur();
+            return;
+        }
+        const back = event.shiftKey ? -1 : 1;
+        const moves: { [key: string]: CellPosition } = {
+            ArrowUp: { row: -1, column: 0 },
+            ArrowDown: { row: 1, column: 0 },
+            ArrowLeft: { row: 0, column: -1 },
+            ArrowRight: { row: 0, column: 1 },
+            Enter: { row: back, column: 0 },
+            Tab: { row: 0, column: back }
+        };
+        const move = moves[event.key];
+        if (!move) {
+            return;
+        }
+        const last = this._confusionMatrix.labels.length - 1;
+        const focus = {
+            row: Math.max(0, Math.min(last, row + move.row)),
+            column: Math.max(0, Math.min(last, column + move.column))
+        };
+        if (event.key === 'Tab' && focus.row === row && focus.column === column) {
+            // Tab leaves the confusion matrix from its first and last values.
+            return;
+        }
+        event.preventDefault();
+        if (!this.matrixValueChange(event, row, column)) {
+            return;
+        }
+        const extend = event.shiftKey && event.key.startsWith('Arrow');
+        this.selection = { anchor: extend ? this.selection?.anchor ?? { row, column } : focus, focus };
+        this.focusCell(focus);
+    }
+
+    /**
+     * Selects a value when it gets the focus, unless it was already selected by the keyboard or a shift click.
+     * In view mode, the value tooltip is shown as when hovered.
+     */
+    cellFocus(row: number, column: number) {
+        if (this.selection?.focus.row !== row || this.selection?.focus.column !== column) {
+            this.selection = { anchor: { row, column }, focus: { row, column } };
+        }
+        if (!this.editionMode) {
+            this.cellHover(row, column);
+        }
+    }
+
+    cellBlur() {
+        if (!this.editionMode) {
+            this.cellLeave();
+        }
+    }
+
+    /**
+     * Only the focused value (the first one by default) is reached with Tab, the others with the arrows.
+     */
+    getCellTabIndex(row: number, column: number): number {
+        const focus = this.selection?.focus ?? { row: 0, column: 0 };
+        return focus.row === row && focus.column === column ? 0 : -1;
+    }
+
+    getHeaderId(type: 'row' | 'column', index: number): string {
+        return `${this.idPrefix}-${type}-${index}`;
+    }
+
+    getCellId(row: number, column: number): string {
+        return `${this.idPrefix}-cell-${row}-${column}`;
+    }
+
+    /**
+     * Gets the text read by screen readers for a value, e.g. "Actual cat, predicted dog, count 3".
+     * @param row The value row index.
+     * @param column The value column index.
+     * @returns The value description.
+     */
+    getCellLabel(row: number, column: number): string {
+        const labels: Array<string> = this._viewConfusionMatrix.labels;
+        const mode = this.isDifferenceDisplay ? 'difference' :
+            this.isPercentageDisplay ? this._displayMode.toLowerCase() : 'count';
+        return `Actual ${labels[row]}, predicted ${labels[column]}, ${mode} ${this.getDisplayText(row, column)}`;
+    }
+
+    /**
+     * Gets a value magnitude, from 0 to 1, drawn as a bar in the high contrast theme.
+     * @param row The value row index.
+     * @param column The value column index.
+     * @returns The value divided by the largest displayed value (in absolute value).
+     */
+    getCellMagnitude(row: number, column: number): number {
+        return this.maxDisplayValue > 0 ? Math.abs(this.displayValues[row]?.[column] ?? 0) / this.maxDisplayValue : 0;
+    }
+
+    /**
+     * Extends the selection with a shift click.
+     */
+    cellMouseDown(event: any, row: number, column: number) {
+        if (this.editionMode && event.shiftKey && this.selection) {
+            this.selection = { anchor: this.selection.anchor, focus: { row, column } };
+        }
+    }
+
+    /**
+     * Extends the selection while the mouse is dragged over the values.
+     */
+    extendSelection(event: any, row: number, column: number) {
+        if (this.editionMode && event.buttons === 1 && this.selection) {
+            this.selection = { anchor: this.selection.anchor, focus: { row, column } };
+        }
+    }
+
+    isSelected(row: number, column: number): boolean {
+        return this.editionMode && this.cellEditService.isSelected(this.selection, row, column);
+    }
+
+    getCellError(row: number, column: number): string | undefined {
+        return this.cellError?.row === row && this.cellError?.column === column ? this.cellError.message : undefined;
+    }
+
+    /**
+     * Copies the selected values as tab separated lines, to be pasted in a spreadsheet.
+     * A single value is copied as the text selected in it.
+     */
+    copyCells(event: any) {
+        if (!this.selection || !event.clipboardData) {
+            return;
+        }
+        const { start, end } = this.cellEditService.getBounds(this.selection);
+        if (start.row === end.row && start.column === end.column) {
+            return;
+        }
+        event.clipboardData.setData('text/plain', this.cellEditService.formatBlock(this._confusionMatrix.matrix, this.selection));
+        event.preventDefault();
+    }
+
+    /**
+     * Pastes a block of values copied from a spreadsheet, from the top left selected value, in a single history step.
+     * A single value pasted over several selected values fills them all.
+     */
+    pasteCells(event: any, row: number, column: number) {
+        const text: string | undefined = event.clipboardData?.getData('text/plain');
+        if (!this.editionMode || !text) {
+            return;
+        }
+        event.preventDefault();
+        const selection = this.cellEditService.isSelected(this.selection, row, column) && this.selection ?
+            this.selection : { anchor: { row, column }, focus: { row, column } };
+        const { start, end } = this.cellEditService.getBounds(selection);
+        let block: Array<Array<number>>;
+        try {
+            block = this.cellEditService.parseBlock(text, this.cellEditService.hasDecimals(this._confusionMatrix.matrix));
+        } catch (error) {
+            const details = error instanceof ImportError ? error.details : [];
+            this.showError('Unable to paste values', error?.message ?? String(error), details);
+            return;
+        }
+        if (block.length === 1 && block[0].length === 1) {
+            block = new Array(end.row - start.row + 1).fill(0).map(() => new Array(end.column - start.column + 1).fill(block[0][0]));
+        }
+
+        const size = this._confusionMatrix.labels.length;
+        if (start.row + block.length > size || start.column + block[0].length > size) {
+            this.showError('Unable to paste values', 'The pasted values do not fit in the confusion matrix.',
+                [`${block.length} rows of ${block[0].length} values pasted from row ${start.row + 1}, ` +
+                    `column ${start.column + 1} of a ${size} × ${size} confusion matrix.`]);
+            return;
+        }
+        const matrix: Array<Array<number>> = this.deepCopy(this._confusionMatrix.matrix);
+        block.forEach((values, rowOffset) => values.forEach((value, columnOffset) =>
+            matrix[start.row + rowOffset][start.column + columnOffset] = value));
+        this.cellError = undefined;
+        this.selection = {
+            anchor: start,
+            focus: { row: start.row + block.length - 1, column: start.column + block[0].length - 1 }
+        };
+        this._confusionMatrix.matrix = matrix;
+        this.confusionMatrixChange.emit(this._confusionMatrix);
+    }
+
+    /**
+     * Handles a click on a confusion matrix value.
+     * @param row The value row index.
+     * @param column The value column index.
+     */
+    cellClicked(row: number, column: number) {
+        if (this.editionMode) {
+            return;
+        }
+        const event: CellClickEvent = {
+            rowLabel: this._viewConfusionMatrix.labels[row],
+            columnLabel: this._viewConfusionMatrix.labels[column],
+            value: this._viewConfusionMatrix.matrix[row][column],
+            samples: this.getCellSamples(row, column)
+        };
+        this.cellClick.emit(event);
+
+        if (this.showCellSamples && event.samples.length > 0) {
+            const cellSamples = this.utilService.getComponentReference<CellSamplesComponent>(CellSamplesComponent);
+            cellSamples.instance.rowLabel = event.rowLabel;
+            cellSamples.instance.columnLabel = event.columnLabel;
+            cellSamples.instance.value = event.value;
+            cellSamples.instance.samples = event.samples;
+            this.dialogService.show(cellSamples, this.host.nativeElement);
+        }
+    }
+
+    /**
+     * Shows the precision, recall, F1 score, specificity and support of each label in a dialog.
+     */
+    showClassificationReport() {
+        const classificationReport = this.utilService.getComponentReference<ClassificationReportComponent>(ClassificationReportComponent);
+        classificationReport.instance.confusionMatrix = this._confusionMatrix;
+        this.dialogService.show(classificationReport, this.host.nativeElement);
+    }
+
+    /**
+     * Gets the samples behind a displayed value. The samples of a collapsed group are the ones of all its members.
+     * @param row The value row index.
+     * @param column The value column index.
+     * @returns The samples, empty if none were provided.
+     */
+    getCellSamples(row: number, column: number): Array<CellSample> {
+        const rowLabels = this.displayedLabels[row]?.members ?? [];
+        const columnLabels = this.displayedLabels[column]?.members ?? [];
+        const samples = new Array<string | CellSample>();
+        rowLabels.forEach(rowLabel => columnLabels.forEach(columnLabel =>
+            samples.push(...(this.cellSamples?.[rowLabel]?.[columnLabel] ?? []))));
+        return samples.map(sample => typeof sample === 'string' ? { id: sample } : sample);
+    }
+
+    hasCellSamples(row: number, column: number): boolean {
+        const rowLabels = this.displayedLabels[row]?.members ?? [];
+        const columnLabels = this.displayedLabels[column]?.members ?? [];
+        return rowLabels.some(rowLabel =>
+            columnLabels.some(columnLabel => (this.cellSamples?.[rowLabel]?.[columnLabel]?.length ?? 0) > 0));
+    }
+
+    /**
+     * Whether the values are currently displayed as percentages.
+     * Values are always displayed as counts in edition mode.
+     */
+    get isPercentageDisplay(): boolean {
+        return !this.editionMode && this._displayMode !== DisplayMode.Count;
+    }
+
+    changeDisplayMode(displayMode: DisplayMode) {
+        this.displayMode = displayMode;
+        this.displayModeChange.emit(displayMode);
+    }
+
+    getNextDisplayMode(): DisplayMode {
+        const modes = Object.values(DisplayMode);
+        return modes[(modes.indexOf(this._displayMode) + 1) % modes.length];
+    }
+
+    /**
+     * Gets the text displayed for a confusion matrix value.
+     * @param row The value row index.
+     * @param column The value column index.
+     * @returns The formatted value.
+     */
+    getDisplayText(row: number, column: number): string {
+        const value = this.displayValues[row]?.[column];
+        if (value === undefined) {
+            return '';
+        }
+        const sign = this.isDifferenceDisplay && value > 0 ? '+' : '';
+        if (this.isPercentageDisplay) {
+            return `${sign}${this.decimalPipe.transform(value, '1.0-1')}%`;
+        }
+        return sign + (this.decimalPipe.transform(value, this.roundRules) ?? String(value));
+    }
+
+    getCellColor(row: number, column: number): string {
+        return this.getColor(this.displayValues[row]?.[column] ?? 0, row !== column);
+    }
+
+    /**
+     * Whether the values are drawn on a canvas, for large confusion matrices.
+     */
+    get virtualized(): boolean {
+        return !this.editionMode && this.displayedLabels.length > this._virtualizationThreshold;
+    }
+
+    /**
+     * Gets the text color of a value, readable over its cell color.
+     * @param row The value row index.
+     * @param column The value column index.
+     * @returns The text color.
+     */
+    getCellTextColor(row: number, column: number): string {
+        return this.colorService.getContrastColor(this.getCellColor(row, column));
+    }
+
+    levelsColorsChanged(colors: Array<string>) {
+        if (this.isDifferenceDisplay) {
+            this.differenceLevelsColors = colors;
+            this.differenceLevelsColorsChange.emit(colors);
         } else {
-            event.target.value = this._confusionMatrix.matrix[row][column];
+            this.levelsColors = colors;
+            this.levelsColorsChange.emit(colors);
         }
     }
 
+    errorLevelsColorsChanged(colors: Array<string>) {
+        this.errorLevelsColors = colors;
+        this.errorLevelsColorsChange.emit(colors);
+    }
+
+    changeSeparateErrorColors() {
+        this.separateErrorColors = !this.separateErrorColors;
+        this.separateErrorColorsChange.emit(this.separateErrorColors);
+    }
+
+    intensityScaleChanged(scale: IntensityScale) {
+        this.intensityScale = scale;
+        this.intensityScaleChange.emit(scale);
+    }
+
+    /**
+     * Recalculates the displayed values from the confusion matrix values and the display mode.
+     * Percentages go from 0 to 100.
+     */
+    refreshDisplayValues() {
+        this.refreshView();
+        const displayMode = this.editionMode ? DisplayMode.Count : this._displayMode;
+        this.displayValues = this.getDisplayValues(this._viewConfusionMatrix.matrix, displayMode);
+        this.displayValuesVersion++;
+
+        if (this.isDifferenceDisplay && this._comparedConfusionMatrix) {
+            const compared = this.getDisplayValues(this.getComparedValues(), displayMode);
+            this.displayValues = this.displayValues.map((row, rowIndex) =>
+                row.map((value, columnIndex) => value - compared[rowIndex][columnIndex]));
+        }
+        this.maxDisplayValue = this.displayValues.reduce((max, values) =>
+            values.reduce((rowMax, value) => Math.max(rowMax, Math.abs(value)), max), 0);
+    }
+
+    /**
+     * Changes when the canvas values texts or colors change, so the canvas is only redrawn then.
+     */
+    get canvasColorsKey(): string {
+        return JSON.stringify([this.displayValuesVersion, this.levelsColors, this.errorLevelsColors, this.differenceLevelsColors,
+            this.separateErrorColors, this.intensityScale, this.roundRules, this._theme?.name]);
+    }
+
+    /**
+     * Checks if the differences with the compared confusion matrix are displayed.
+     */
+    get isDifferenceDisplay(): boolean {
+        return !this.editionMode && this._showDifference && !!this._comparedConfusionMatrix;
+    }
+
+    changeShowDifference() {
+        this.showDifference = !this._showDifference;
+        this.showDifferenceChange.emit(this._showDifference);
+    }
+
+    cellHover(row: number, column: number) {
+        if (this.showTooltip && !this.dragging) {
+            this.hoveredCell = this.getCellInformation(row, column);
+        }
+    }
+
+    cellLeave() {
+        this.hoveredCell = undefined;
+    }
+
+    /**
+     * Checks if a value shares the row or column of the hovered value.
+     */
+    isHighlighted(row: number, column: number): boolean {
+        return !!this.hoveredCell && (this.hoveredCell.row === row || this.hoveredCell.column === column);
+    }
+
+    isHovered(row: number, column: number): boolean {
+        return this.hoveredCell?.row === row && this.hoveredCell?.column === column;
+    }
+
+    /**
+     * Gets the labels, value and percentages of a confusion matrix value.
+     * @param row The value row index.
+     * @param column The value column index.
+     * @returns The value information.
+     */
+    getCellInformation(row: number, column: number): CellInformation {
+        const matrix: Array<Array<number>> = this._viewConfusionMatrix.matrix;
+        const value = matrix[row][column];
+        const rowSum = matrix[row].reduce((sum, current) => sum + current, 0);
+        const columnSum = matrix.reduce((sum, current) => sum + current[column], 0);
+        const total = matrix.reduce((sum, current) => sum + current.reduce((rowTotal, item) => rowTotal + item, 0), 0);
+        return {
+            row,
+            column,
+            actual: this._viewConfusionMatrix.labels[row],
+            predicted: this._viewConfusionMatrix.labels[column],
+            value,
+            rowPercentage: rowSum ? value / rowSum : 0,
+            columnPercentage: columnSum ? value / columnSum : 0,
+            totalPercentage: total ? value / total : 0,
+            comparedValue: this._comparedConfusionMatrix ? this.getComparedValues()[row][column] : undefined
+        };
+    }
+
     calculateInputSize(event: any) {
         const size = event.target.value.length * 2;
         event.target.style.width = `${size}px`;
@@ -258,21 +1135,138 @@ export class ConfusionMatrixComponent implements AfterViewInit {
 
     }
 
+    /**
+     * Collapses or expands a label group.
+     * @param group The label group.
+     */
+    toggleLabelGroup(group: LabelGroup | undefined) {
+        if (!group || this.editionMode) {
+            return;
+        }
+        this.labelGroups = this._labelGroups.map(labelGroup =>
+            labelGroup.name === group.name ? { ...labelGroup, collapsed: !labelGroup.collapsed } : labelGroup);
+        this.labelGroupsChange.emit(this._labelGroups);
+    }
+
+    labelGroupsChanged(labelGroups: Array<LabelGroup>) {
+        this.labelGroups = labelGroups;
+        this.labelGroupsChange.emit(this._labelGroups);
+    }
+
     transpose() {
         this._confusionMatrix.transpose();
         this.confusionMatrixChange.emit(this._confusionMatrix);
     }
 
+    /**
+     * Undoes the last edit. Edits made of several history steps (merges, remaps) are undone at once.
+     */
     undo() {
-        this._confusionMatrix.undo();
+        const edit = this.compositeEdits[this.compositeEdits.length - 1];
+        if (edit && edit.after === this.getHistoryState()) {
+            this.compositeEdits.pop();
+            this.undoneCompositeEdits.push(edit);
+            this.stepHistory(() => this._confusionMatrix.undo(), edit.before);
+        } else {
+            this._confusionMatrix.undo();
+        }
         this.confusionMatrixChange.emit(this._confusionMatrix);
     }
 
     redo() {
-        this._confusionMatrix.redo();
+        const edit = this.undoneCompositeEdits[this.undoneCompositeEdits.length - 1];
+        if (edit && edit.before === this.getHistoryState()) {
+            this.undoneCompositeEdits.pop();
+            this.compositeEdits.push(edit);
+            this.stepHistory(() => this._confusionMatrix.redo(), edit.after);
+        } else {
+            this._confusionMatrix.redo();
+        }
         this.confusionMatrixChange.emit(this._confusionMatrix);
     }
 
+    /**
+     * Merges a label into another one: their rows and columns are summed and the source label is removed.
+     * @param source The label merged and removed.
+     * @param target The label kept.
+     */
+    mergeLabels(source: string, target: string) {
+        this.compositeEdit(() => this.merge(source, target));
+    }
+
+    /**
+     * Renames a label, as an edit that can be undone.
+     * @param label The label renamed.
+     * @param name The new name.
+     */
+    renameLabel(label: string, name: string) {
+        this.compositeEdit(() => this.rename({ [label]: name }));
+    }
+
+    /**
+     * Renames labels in bulk. Labels mapped to the same name are merged.
+     * @param mapping The new name of each label, labels not in the mapping keep their name.
+     */
+    remapLabels(mapping: LabelMapping) {
+        this.compositeEdit(() => {
+            let changed = false;
+            const names: LabelMapping = {};
+            for (const target of this.labelMappingService.getTargets(this._confusionMatrix.labels, mapping)) {
+                const [first, ...others] = target.members;
+                others.forEach(other => changed = this.merge(other, first) || changed);
+                names[first] = target.name;
+            }
+            return this.rename(names) || changed;
+        });
+    }
+
+    /**
+     * Reorders the labels and their values, as an edit that can be undone.
+     * @param order The labels order.
+     */
+    reorderLabels(order: LabelOrder) {
+        const labels: Array<string> = this._confusionMatrix.labels;
+        const matrix: Array<Array<number>> = this._confusionMatrix.matrix;
+        let ordered: Array<string>;
+        if (order === LabelOrder.Clustering) {
+            this.dendrogram = this.labelOrderService.cluster(labels, matrix);
+            ordered = this.dendrogram.labels;
+        } else {
+            ordered = this.labelOrderService.getOrder(labels, matrix, order);
+        }
+        if (ordered.every((label, index) => label === labels[index])) {
+            this.refreshDisplayValues();
+            return;
+        }
+        const indexes = ordered.map(label => labels.indexOf(label));
+        this.compositeEdit(() => {
+            this._confusionMatrix.labels = [...ordered];
+            this._confusionMatrix.matrix = indexes.map(row => indexes.map(column => matrix[row][column]));
+            return true;
+        });
+    }
+
+    dendrogramChanged(showDendrogram: boolean) {
+        this.showDendrogram = showDendrogram;
+        this.refreshDisplayValues();
+    }
+
+    /**
+     * Remaps the labels from a mapping file (JSON or CSV/TSV).
+     * Shows an error dialog if the file does not hold a valid mapping.
+     */
+    async importLabelMapping() {
+        const text = await this.importService.import('.json,.csv,.tsv,.txt');
+        if (text) {
+            try {
+                this.remapLabels(this.labelMappingService.parse(text));
+            } catch (error) {
+                const details = error instanceof ImportError ? error.details : [];
+                this.showError('Unable to import label mapping', error?.message ?? String(error), details);
+            }
+        }
+    }
+
     // This function will delete a given label
     removeLabel(name: string) {
         this._confusionMatrix.removeLabel(name);
@@ -304,6 +1298,9 @@ export class ConfusionMatrixComponent implements AfterViewInit {
     }
 
     onDrop(target: number) {
+        if (!this.allowDrag()) {
+            return;
+        }
         this._confusionMatrix.changeLabelOrder(this.dragIndex, target);
         this.confusionMatrixChange.emit(this._confusionMatrix);
     }
@@ -313,8 +1310,12 @@ export class ConfusionMatrixComponent implements AfterViewInit {
         return false;
     }
 
+    /**
+     * Labels can be dragged when the displayed labels are the confusion matrix ones,
+     * not while label groups are collapsed since their indexes differ.
+     */
     allowDrag() {
-        return !this.editionMode;
+        return !this.editionMode && this._viewConfusionMatrix === this._confusionMatrix;
     }
 
     dragEnter(index: number) {
@@ -325,23 +1326,383 @@ export class ConfusionMatrixComponent implements AfterViewInit {
         this.dragHighlight[index] = false;
     }
 
+    /**
+     * Downloads the workspace: the confusion matrix and how it is displayed.
+     */
     save() {
-        this.downloadService.download(this._confusionMatrix.convertToJson(),
+        this.downloadService.download(this.workspaceService.serialize(this.getWorkspace()),
             'confusion-matrix.json');
     }
 
+    /**
+     * Imports a workspace, or a confusion matrix saved before workspaces existed.
+     * Shows an error dialog if the file does not hold a valid workspace.
+     */
     async import() {
         const json = await this.importService.import();
         if (json) {
-            this._confusionMatrix.importAsJson(json);
+            try {
+                this.applyWorkspace(this.workspaceService.parse(json));
+            } catch (error) {
+                const details = error instanceof ImportError ? error.details : [];
+                this.showError('Unable to import file', error?.message ?? String(error), details);
+            }
+        }
+    }
+
+    /**
+     * Gets the workspace: the confusion matrix and how it is displayed.
+     * The confusion matrix values are the ones before normalization, the normalization bounds are kept apart.
+     * @returns The workspace, without its version.
+     */
+    getWorkspace(): Omit<Workspace, 'version'> {
+        const original = this._confusionMatrix.clone();
+        original.revertAllNormalizations();
+        const normalized = JSON.stringify(original.matrix) !== JSON.stringify(this._confusionMatrix.matrix);
+        const minMax = normalized ? this._confusionMatrix.getMinAndMax() : undefined;
+        const metrics = this.metricsPanel?.metrics ?? [];
+        const customMetrics = this.metricService.getCustomMetrics()
+            .filter(customMetric => metrics.some(metric => metric.metric === customMetric.name));
+        return {
+            confusionMatrix: { labels: [...original.labels], matrix: original.matrix.map((row: Array<number>) => [...row]) },
+            title: this.title,
+            zoom: this._zoom,
+            levelsColors: this.levelsColors,
+            intensityScale: this.intensityScale,
+            separateErrorColors: this.separateErrorColors,
+            errorLevelsColors: this.errorLevelsColors,
+            differenceLevelsColors: this.differenceLevelsColors,
+            displayMode: this._displayMode,
+            roundRules: this.roundRules,
+            metrics,
+            customMetrics,
+            normalization: minMax ? { min: minMax.min, max: minMax.max } : undefined,
+            labelGroups: this._labelGroups
+        };
+    }
+
+    /**
+     * Restores a workspace. The view settings not in the workspace keep their current value.
+     * @param workspace The workspace.
+     * @throws MetricFormulaError when a custom metric formula is not valid.
+     */
+    applyWorkspace(workspace: Omit<Workspace, 'version'>) {
+        workspace.customMetrics?.forEach(customMetric => this.metricService.register(customMetric));
+
+        const confusionMatrix = new ConfusionMatrix(workspace.confusionMatrix);
+        if (workspace.normalization) {
+            confusionMatrix.normalize(workspace.normalization.min, workspace.normalization.max);
+        }
+        this.confusionMatrix = confusionMatrix;
+
+        if (workspace.title !== undefined) {
+            this.title = workspace.title;
+            this.titleChange.emit(this.title);
+        }
+        if (workspace.zoom !== undefined) {
+            this.zoom = workspace.zoom;
+            this.zoomChange.emit(this._zoom);
+        }
+        if (workspace.levelsColors) {
+            this.levelsColors = workspace.levelsColors;
+            this.levelsColorsChange.emit(this.levelsColors);
+        }
+        if (workspace.intensityScale) {
+            this.intensityScaleChanged(new IntensityScale(workspace.intensityScale));
+        }
+        if (workspace.separateErrorColors !== undefined) {
+            this.separateErrorColors = workspace.separateErrorColors;
+            this.separateErrorColorsChange.emit(this.separateErrorColors);
+        }
+        if (workspace.errorLevelsColors) {
+            this.errorLevelsColorsChanged(workspace.errorLevelsColors);
+        }
+        if (workspace.differenceLevelsColors) {
+            this.differenceLevelsColors = workspace.differenceLevelsColors;
+            this.differenceLevelsColorsChange.emit(this.differenceLevelsColors);
+        }
+        if (workspace.displayMode) {
+            this.changeDisplayMode(workspace.displayMode);
+        }
+        if (workspace.roundRules) {
+            this.roundRules = workspace.roundRules;
+        }
+        if (workspace.labelGroups) {
+            this.labelGroupsChanged(workspace.labelGroups);
+        }
+        if (workspace.metrics && this.metricsPanel) {
+            this.metricsPanel.metrics = workspace.metrics.map(metric => ({
+                metric: metric.metric,
+                averageMethod: metric.averageMethod,
+                label: metric.label,
+                round: metric.round,
+                style: metric.style ? new MetricStyleConfiguration(metric.style) : undefined,
+                parameters: metric.parameters ? new MetricParameters(metric.parameters) : undefined,
+                confidenceInterval: metric.confidenceInterval ? new ConfidenceIntervalOptions(metric.confidenceInterval) : undefined
+            }));
+        }
+        this.confusionMatrixChange.emit(this._confusionMatrix);
+    }
+
+    /**
+     * Downloads the confusion matrix as delimited text.
+     * @param delimiter The column delimiter, ',' for CSV and '\t' for TSV.
+     */
+    saveAsCsv(delimiter = ',') {
+        const extension = delimiter === '\t' ? 'tsv' : 'csv';
+        this.downloadService.download(this.csvService.convertToCsv(this._confusionMatrix, delimiter),
+            `confusion-matrix.${extension}`);
+    }
+
+    /**
+     * Imports a confusion matrix from a CSV/TSV file.
+     * Shows an error dialog if the file does not hold a valid matrix.
+     */
+    async importCsv() {
+        const text = await this.importService.import('.csv,.tsv,.txt');
+        if (text) {
+            try {
+                this.confusionMatrix = new ConfusionMatrix(this.csvService.parse(text));
+                this.confusionMatrixChange.emit(this._confusionMatrix);
+            } catch (error) {
+                const details = error instanceof ImportError ? error.details : [];
+                this.showError('Unable to import file', error?.message ?? String(error), details);
+            }
+        }
+    }
+
+    /**
+     * Builds the confusion matrix from a predictions file (JSON, CSV or TSV).
+     * Shows an error dialog if the file does not hold valid predictions.
+     */
+    async importPredictions() {
+        const text = await this.importService.import('.json,.csv,.tsv,.txt');
+        if (text) {
+            try {
+                this.predictions = this.predictionsService.parse(text);
+                this.confusionMatrixChange.emit(this._confusionMatrix);
+            } catch (error) {
+                const details = error instanceof ImportError ? error.details : [];
+                this.showError('Unable to import predictions', error?.message ?? String(error), details);
+            }
+        }
+    }
+
+    private getDisplayValues(matrix: Array<Array<number>>, displayMode: DisplayMode): Array<Array<number>> {
+        const sum = (values: Array<number>) => values.reduce((result, value) => result + value, 0);
+        const rowSums = matrix.map(row => sum(row));
+        const columnSums = matrix.map((_, column) => sum(matrix.map(row => row[column] ?? 0)));
+        const total = sum(rowSums);
+        const percentage = (value: number, divisor: number) => divisor ? value / divisor * 100 : 0;
+
+        return matrix.map((row, rowIndex) => row.map((value, columnIndex) => {
+            switch (displayMode) {
+                case DisplayMode.RowPercentage:
+                    return percentage(value, rowSums[rowIndex]);
+                case DisplayMode.ColumnPercentage:
+                    return percentage(value, columnSums[columnIndex]);
+                case DisplayMode.TotalPercentage:
+                    return percentage(value, total);
+            }
+            return value;
+        }));
+    }
+
+    /**
+     * Runs an edit that can take several history steps, so it is undone and redone at once.
+     * @param edit The edit, returning whether it changed the confusion matrix.
+     */
+    private compositeEdit(edit: () => boolean) {
+        const before = this.getHistoryState();
+        if (edit()) {
+            this.compositeEdits.push({ before, after: this.getHistoryState() });
+            this.undoneCompositeEdits = [];
             this.confusionMatrixChange.emit(this._confusionMatrix);
         }
     }
 
+    /**
+     * Undoes or redoes history steps until the confusion matrix reaches a state, or the history has no more steps.
+     * @param step Undoes or redoes one step.
+     * @param target The confusion matrix state reached.
+     */
+    private stepHistory(step: () => void, target: string) {
+        let state = this.getHistoryState();
+        while (state !== target) {
+            step();
+            const next = this.getHistoryState();
+            if (next === state) {
+                return;
+            }
+            state = next;
+        }
+    }
+
+    /**
+     * Sums a label row and column into another label ones and removes it.
+     * @returns Whether the label was merged.
+     */
+    private merge(source: string, target: string): boolean {
+        const sourceIndex = this._confusionMatrix.labels.indexOf(source);
+        const targetIndex = this._confusionMatrix.labels.indexOf(target);
+        if (sourceIndex < 0 || targetIndex < 0 || sourceIndex === targetIndex) {
+            return false;
+        }
+        const matrix: Array<Array<number>> = this.deepCopy(this._confusionMatrix.matrix);
+        matrix[sourceIndex].forEach((value, column) => matrix[targetIndex][column] += value);
+        matrix.forEach(row => row[targetIndex] += row[sourceIndex]);
+        this._confusionMatrix.matrix = matrix;
+        this._confusionMatrix.removeLabel(source);
+        this.originalWidth -= 40;
+        this.originalHeight -= 40;
+        this.updateZoomValue(this._zoom);
+        return true;
+    }
+
+    /**
+     * Renames labels, the values are kept.
+     * @returns Whether any label was renamed.
+     */
+    private rename(names: LabelMapping): boolean {
+        const labels: Array<string> = this._confusionMatrix.labels;
+        if (labels.every(label => (names[label] ?? label) === label)) {
+            return false;
+        }
+        this._confusionMatrix.labels = labels.map(label => names[label] ?? label);
+        this._confusionMatrix.matrix = this.deepCopy(this._confusionMatrix.matrix);
+        return true;
+    }
+
+    private getHistoryState(): string {
+        return JSON.stringify({ labels: this._confusionMatrix.labels, matrix: this._confusionMatrix.matrix });
+    }
+
+    /**
+     * Rebuilds the displayed confusion matrix, with the collapsed label groups summed.
+     */
+    private refreshView() {
+        const groups = this.editionMode ?
+            this._labelGroups.map(group => ({ ...group, collapsed: false })) : this._labelGroups;
+        const labels: Array<string> = this._confusionMatrix.labels;
+        this.displayedLabels = this.labelGroupsService.getDisplayedLabels(labels, groups);
+        this.labelGroupSpans = groups.length > 0 ? this.labelGroupsService.getSpans(this.displayedLabels) : [];
+        if (this.displayedLabels.every((displayed, index) => displayed.label === labels[index]) &&
+            this.displayedLabels.length === labels.length) {
+            this._viewConfusionMatrix = this._confusionMatrix;
+        } else {
+            this._viewConfusionMatrix = this.labelGroupsService.collapse(this._confusionMatrix, groups);
+        }
+        if (this.focusedLabel !== undefined && this.focusedLabel >= this.displayedLabels.length) {
+            this.focusedLabel = undefined;
+        }
+        if (this.virtualized) {
+            // The canvas reads the values directly, large matrices are not copied.
+            this._viewConfusionMatrixTransposed = new ConfusionMatrix();
+        } else {
+            this._viewConfusionMatrixTransposed = this._viewConfusionMatrix.clone();
+            this._viewConfusionMatrixTransposed.transpose();
+        }
+
+        const viewLabels: Array<string> = this._viewConfusionMatrix.labels;
+        const indexes = this.virtualized ? [] : viewLabels.map((label, index) => index);
+        this.ariaColumnHeaders = indexes.map(index => this.getHeaderId('column', index)).join(' ');
+        this.ariaRows = indexes.map(row =>
+            [this.getHeaderId('row', row), ...indexes.map(column => this.getCellId(row, column))].join(' '));
+        this.dendrogramLines = this.showDendrogram && !this.editionMode && !this.virtualized && this.dendrogram &&
+            this.dendrogram.labels.length === viewLabels.length &&
+            this.dendrogram.labels.every((label, index) => label === viewLabels[index]) ?
+            this.labelOrderService.getDendrogramLines(this.dendrogram, this.dendrogramWidth) : [];
+
+        this._groupedConfusionMatrix = groups.length > 0 ?
+            this.labelGroupsService.collapse(this._confusionMatrix, groups, true) : undefined;
+        this._groupedComparedConfusionMatrix = groups.length > 0 && this._comparedConfusionMatrix ?
+            this.labelGroupsService.collapse(this._comparedConfusionMatrix, groups, true) : undefined;
+    }
+
+    /**
+     * Gets the compared confusion matrix values, in the displayed labels order.
+     */
+    private getComparedValues(): Array<Array<number>> {
+        if (!this._comparedConfusionMatrix) {
+            return [];
+        }
+        const labels = this._confusionMatrix.labels;
+        return this.labelGroupsService.collapseValues(this.comparisonService.getValues(this._comparedConfusionMatrix, labels),
+            labels, this.displayedLabels);
+    }
+
+    private getMetricsValues(): Array<{ name: string, value: string }> {
+        return (this.metricsPanel?.metrics ?? []).map(metric => {
+            const value = this.metricService.calculate(this._confusionMatrix, metric.metric, metric.averageMethod,
+                metric.label, metric.parameters);
+            return {
+                name: `${metric.metric} (${metric.label ?? AverageMethod[metric.averageMethod]})`,
+                value: this.decimalPipe.transform(value, `1.0-${metric.round || 3}`) ?? String(value)
+            };
+        });
+    }
+
+    private showError(title: string, message: string, details = new Array<string>()) {
+        const errorMessage = this.utilService.getComponentReference<ErrorMessageComponent>(ErrorMessageComponent);
+        errorMessage.instance.title = title;
+        errorMessage.instance.message = message;
+        errorMessage.instance.details = details;
+        this.dialogService.show(errorMessage, this.host.nativeElement);
+    }
+
     private onConfusionMatrixChange() {
         this.dragHighlight = new Array(this._confusionMatrix.labels.length);
     }
 
+    /**
+     * Keys in view mode: arrows, Home and End move between values, Enter or Space clicks the focused value.
+     */
+    private viewCellKeyDown(event: any, row: number, column: number) {
+        if (event.key === 'Enter' || event.key === ' ') {
+            event.preventDefault();
+            this.cellClicked(row, column);
+            return;
+        }
+        const moves: { [key: string]: CellPosition } = {
+            ArrowUp: { row: -1, column: 0 },
+            ArrowDown: { row: 1, column: 0 },
+            ArrowLeft: { row: 0, column: -1 },
+            ArrowRight: { row: 0, column: 1 },
+            Home: { row: 0, column: -column },
+            End: { row: 0, column: this.displayedLabels.length - 1 - column }
+        };
+        const move = moves[event.key];
+        if (!move) {
+            return;
+        }
+        event.preventDefault();
+        const last = this.displayedLabels.length - 1;
+        const focus = {
+            row: Math.max(0, Math.min(last, row + move.row)),
+            column: Math.max(0, Math.min(last, column + move.column))
+        };
+        this.selection = { anchor: focus, focus };
+        this.focusCell(focus);
+    }
+
+    /**
+     * Focuses a value in edition mode, with its text selected so typing replaces it.
+     */
+    private focusCell(cell: CellPosition) {
+        const element: HTMLElement | null | undefined = this.rows?.nativeElement
+            .querySelector(`[data-row="${cell.row}"][data-column="${cell.column}"]`);
+        if (element) {
+            element.focus();
+            if (!this.editionMode) {
+                return;
+            }
+            const range = document.createRange();
+            range.selectNodeContents(element);
+            window.getSelection()?.removeAllRanges();
+            window.getSelection()?.addRange(range);
+        }
+    }
+
     private updateZoomValue(zoom: number, throwExceptions = true) {
         if (zoom < 0.2) {
             if (!throwExceptions) return;
@@ -32,6 +32,7 @@ import { DialogConfiguration } from "./dialog.component.model";
 })
 export class DialogComponent {
 
+    private static dialogs = 0;
 
     @Input()
     configuration = new DialogConfiguration();
@@ -45,6 +46,53 @@ export class DialogComponent {
     @ViewChild('content')
     content: ElementRef<any> | undefined;
 
+    /**
+     * Moves the focus into the dialog when it is shown, and back to the element focused before when it is hidden.
+     */
+    @ViewChild('dialog')
+    set dialog(dialog: ElementRef<HTMLElement> | undefined) {
+        if (dialog && !this.dialogElement) {
+            this.previousFocus = document.activeElement as HTMLElement | null;
+            // The content is rendered, or appended by the dialog service, after the dialog itself.
+            setTimeout(() => this.focusFirst(dialog.nativeElement));
+        } else if (!dialog && this.dialogElement) {
+            this.previousFocus?.focus();
+            this.previousFocus = null;
+        }
+        this.dialogElement = dialog?.nativeElement;
+    }
+
+    private dialogElement: HTMLElement | undefined;
+    private previousFocus: HTMLElement | null = null;
+
+    /**
+     * Keeps the focus inside the dialog with Tab and Shift+Tab, and closes it with Escape.
+     */
+    onKeyDown(event: KeyboardEvent) {
+        if (event.key === 'Escape' && this.configuration.closeButton.show) {
+            event.stopPropagation();
+            this.changeVisibility(false);
+            return;
+        }
+        if (event.key !== 'Tab' || !this.dialogElement) {
+            return;
+        }
+        const focusable = this.getFocusable(this.dialogElement);
+        if (focusable.length === 0) {
+            event.preventDefault();
+            return;
+        }
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        if (event.shiftKey && (document.activeElement === first || document.activeElement === this.dialogElement)) {
+            event.preventDefault();
+            last.focus();
+        } else if (!event.shiftKey && document.activeElement === last) {
+            event.preventDefault();
+            first.focus();
+        }
+    }
+
     changeVisibility(value: boolean) {
         if (this.configuration.closeButton.closeOnClick) {
             this.visible = value;
@@ -53,4 +101,25 @@ export class DialogComponent {
         this.visibleChange.emit(this.visible);
     }
 
-}
\ No newline at end of file
+    /**
+     * Focuses the first focusable element of the content (the close button otherwise), named after the first heading.
+     */
+    private focusFirst(dialog: HTMLElement) {
+        const heading = dialog.querySelector('h1, h2, h3');
+        if (heading) {
+            if (!heading.id) {
+                heading.id = `cm-dialog-title-${DialogComponent.dialogs++}`;
+            }
+            dialog.setAttribute('aria-labelledby', heading.id);
+        }
+        const content = this.content?.nativeElement as HTMLElement | undefined;
+        const focusable = (content && this.getFocusable(content)[0]) ?? this.getFocusable(dialog)[0];
+        (focusable ?? dialog).focus();
+    }
+
+    private getFocusable(element: HTMLElement): Array<HTMLElement> {
+        const selector = 'a[href], button, input, select, textarea, [tabindex]:not([tabindex="-1"]), [contenteditable="true"]';
+        return Array.from(element.querySelectorAll<HTMLElement>(selector))
+            .filter(focusable => !(focusable as HTMLInputElement).disabled && focusable.offsetParent !== null);
+    }
+}
@@ -1,4 +1,5 @@
 import { ApplicationRef, ComponentFactoryResolver, ComponentRef, EmbeddedViewRef, Injectable, Injector } from "@angular/core";
+import { ThemeService } from "../../services/theme.service";
 import { UtilService } from "../../services/util.service";
 import { DialogComponent } from "./dialog.component";
 
@@ -10,9 +11,16 @@ export class DialogService {
     constructor(private componentFactoryResolver: ComponentFactoryResolver,
         private applicationRef: ApplicationRef,
         private injector: Injector,
-        private utilService: UtilService) { }
+        private utilService: UtilService,
+        private themeService: ThemeService) { }
 
-    show(componentRef: ComponentRef<any>) {
+    /**
+     * Shows a component in a dialog, over the whole page.
+     * @param componentRef The component shown.
+     * @param opener The element opening the dialog, whose theme is set on the dialog.
+     * @returns The component shown.
+     */
+    show(componentRef: ComponentRef<any>, opener?: Element) {
 
         const dialogRef = this.getDialogComponent();
 
@@ -29,6 +37,9 @@ export class DialogService {
         const domElem = (dialogRef.hostView as EmbeddedViewRef<any>)
             .rootNodes[0] as HTMLElement;
 
+        if (opener) {
+            this.themeService.copy(opener, domElem);
+        }
         document.body.appendChild(domElem);
 
         return componentRef;
@@ -0,0 +1,9 @@
+import { ErrorMessageComponent } from "./error-message.component";
+
+describe("Error message component test suite", () => {
+    it("Can initialize correctly.", () => {
+        const errorMessage = new ErrorMessageComponent();
+        expect(errorMessage).toBeDefined();
+        expect(errorMessage.details.length).toBe(0);
+    });
+});
@@ -0,0 +1,23 @@
+import { Component, Input } from "@angular/core";
+
+/**
+ * Dialog content used to report a failed operation to the user.
+ */
+@Component({
+    selector: 'error-message',
+    templateUrl: './error-message.component.html',
+    styleUrls: ['./error-message.component.scss']
+})
+export class ErrorMessageComponent {
+    @Input()
+    title = 'Something went wrong';
+
+    @Input()
+    message = '';
+
+    /**
+     * Optional list with the specific problems found.
+     */
+    @Input()
+    details = new Array<string>();
+}
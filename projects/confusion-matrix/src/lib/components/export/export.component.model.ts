@@ -0,0 +1,28 @@
+export enum ExportFormat {
+    Svg = 'SVG',
+    Png = 'PNG',
+    Pdf = 'PDF'
+}
+
+export class ExportOptions {
+    format = ExportFormat.Svg;
+
+    /**
+     * File name without extension.
+     */
+    filename = 'confusion-matrix';
+
+    /**
+     * PNG resolution multiplier (2 doubles the width and height in pixels).
+     */
+    scale = 2;
+
+    /**
+     * Whether the metrics configured in the metrics panel are exported below the matrix.
+     */
+    includeMetrics = false;
+
+    constructor(options?: Partial<ExportOptions>) {
+        Object.assign(this, options);
+    }
+}
@@ -0,0 +1,10 @@
+import { ExportComponent } from "./export.component";
+import { ExportFormat } from "./export.component.model";
+
+describe("Export component test suite", () => {
+    it("Can initialize correctly.", () => {
+        const exportComponent = new ExportComponent();
+        expect(exportComponent).toBeDefined();
+        expect(exportComponent.options.format).toBe(ExportFormat.Svg);
+    });
+});
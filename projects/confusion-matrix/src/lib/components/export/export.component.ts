@@ -0,0 +1,67 @@
+import { Component, EventEmitter, Input, Output } from "@angular/core";
+import { CustomSelectValue } from "../html-basics/select/custom-select.models";
+import { ExportFormat, ExportOptions } from "./export.component.model";
+
+@Component({
+    selector: 'export-configuration',
+    templateUrl: './export.component.html',
+    styleUrls: ['./export.component.scss']
+})
+export class ExportComponent {
+
+    @Input()
+    visible = true;
+
+    @Output()
+    visibleChange = new EventEmitter<boolean>();
+
+    @Input()
+    options = new ExportOptions();
+
+    @Output()
+    optionsChange = new EventEmitter<ExportOptions>();
+
+    /**
+     * Emitted when the user asks to download the file.
+     */
+    @Output()
+    export = new EventEmitter<ExportOptions>();
+
+    formats: Array<CustomSelectValue> = Object.values(ExportFormat).map(format => ({ id: format, text: format }));
+
+    get format(): CustomSelectValue {
+        return { id: this.options.format, text: this.options.format };
+    }
+
+    get isPng(): boolean {
+        return this.options.format === ExportFormat.Png;
+    }
+
+    formatChanged(value: CustomSelectValue | undefined) {
+        if (value) {
+            this.options.format = value.id as ExportFormat;
+            this.optionsChange.emit(this.options);
+        }
+    }
+
+    filenameChanged(filename: string) {
+        this.options.filename = filename;
+        this.optionsChange.emit(this.options);
+    }
+
+    scaleChanged(scale: number) {
+        this.options.scale = scale;
+        this.optionsChange.emit(this.options);
+    }
+
+    changeIncludeMetrics() {
+        this.options.includeMetrics = !this.options.includeMetrics;
+        this.optionsChange.emit(this.options);
+    }
+
+    download() {
+        this.export.emit(this.options);
+        this.visible = false;
+        this.visibleChange.emit(false);
+    }
+}
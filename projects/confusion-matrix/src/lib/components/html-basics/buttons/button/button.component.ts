@@ -9,11 +9,20 @@ export class ButtonComponent {
     @Input()
     text = '';
 
+    /**
+     * The theme button color when not defined.
+     */
     @Input()
-    backgroundColor = "#9e9e9e";
+    backgroundColor: string | undefined;
 
     @Input()
     fontColor = 'white';
 
+    /**
+     * Accessible name, for buttons showing a symbol (e.g. ❌).
+     */
+    @Input()
+    ariaLabel: string | undefined;
+
     @Output() click = new EventEmitter<void>();
 }
\ No newline at end of file
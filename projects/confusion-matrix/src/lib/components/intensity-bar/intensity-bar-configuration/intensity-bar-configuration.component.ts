@@ -1,4 +1,6 @@
 import { Component, EventEmitter, Input } from "@angular/core";
+import { CustomSelectValue } from "../../html-basics/select/custom-select.models";
+import { IntensityPalettes, IntensityScale, IntensityScaleType } from "../intensity-bar.models";
 import { IntensityBarService } from "../intensity-bar.service";
 @Component({
     selector: 'intensity-bar-configuration',
@@ -12,12 +14,51 @@ export class IntensityBarConfigurationComponent {
     @Input()
     colorsChange = new EventEmitter<Array<string>>();
 
+    /**
+     * True when editing the errors colors (values outside the diagonal).
+     */
+    @Input()
+    error = false;
+
+    @Input()
+    scale = new IntensityScale();
+
+    @Input()
+    scaleChange = new EventEmitter<IntensityScale>();
+
+    readonly customPalette: CustomSelectValue = { id: '', text: 'Custom' };
+
+    palettes: Array<CustomSelectValue> = [this.customPalette, ...IntensityPalettes.map(palette => ({
+        id: palette.name,
+        text: palette.colorblindSafe ? `${palette.name} (colorblind safe)` : palette.name
+    }))];
+
+    scaleTypes: Array<CustomSelectValue> = Object.values(IntensityScaleType).map(type => ({ id: type, text: type }));
+
     constructor(private intensityBarService: IntensityBarService) {
 
     }
 
+    /**
+     * Gets the built-in palette with the current colors.
+     * @returns The palette, or the custom option if the colors were edited.
+     */
+    get palette(): CustomSelectValue {
+        const palette = IntensityPalettes.find(item => item.colors.length === this.colors.length &&
+            item.colors.every((color, index) => color.toLowerCase() === this.colors[index]?.toLowerCase()));
+        return this.palettes.find(item => item.id === palette?.name) ?? this.customPalette;
+    }
+
+    get scaleType(): CustomSelectValue {
+        return { id: this.scale.type, text: this.scale.type };
+    }
+
+    get isPowerScale(): boolean {
+        return this.scale.type === IntensityScaleType.Power;
+    }
+
     getIntensityNumber(index: number): number {
-        return this.intensityBarService.getIntensityNumber(index);
+        return this.intensityBarService.getIntensityNumber(index, this.error);
     }
 
     /**
@@ -26,7 +67,7 @@ export class IntensityBarConfigurationComponent {
      */
     getGradientBackground(): { [key: string]: string } {
         const style = {
-            'background': `linear-gradient(${this.intensityBarService.levelsColors})`
+            'background': `linear-gradient(${this.intensityBarService.getLevelsColors(this.error)})`
         };
         return style;
     }
@@ -40,4 +81,31 @@ export class IntensityBarConfigurationComponent {
         this.colors.splice(index, 0, this.colors[index]);
         this.colorsChange.emit(this.colors);
     }
-}
\ No newline at end of file
+
+    paletteChanged(value: CustomSelectValue | undefined) {
+        const palette = IntensityPalettes.find(item => item.name === value?.id);
+        if (palette) {
+            this.colors = [...palette.colors];
+            this.colorsChange.emit(this.colors);
+        }
+    }
+
+    scaleTypeChanged(value: CustomSelectValue | undefined) {
+        if (value) {
+            this.scale.type = value.id as IntensityScaleType;
+            this.scaleChange.emit(this.scale);
+        }
+    }
+
+    exponentChanged(exponent: number) {
+        if (exponent > 0) {
+            this.scale.exponent = exponent;
+            this.scaleChange.emit(this.scale);
+        }
+    }
+
+    changeContinuous() {
+        this.scale.continuous = !this.scale.continuous;
+        this.scaleChange.emit(this.scale);
+    }
+}
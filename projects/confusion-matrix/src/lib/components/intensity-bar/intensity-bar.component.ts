@@ -1,9 +1,9 @@
-import { DecimalPipe } from "@angular/common";
-import { Component, EventEmitter, Input, Output } from "@angular/core";
+import { Component, ElementRef, EventEmitter, Injector, Input, Output } from "@angular/core";
 import { ConfusionMatrix } from "@fullexpression/confusion-matrix-stats";
 import { UtilService } from "../../services/util.service";
 import { DialogService } from "../dialogs/dialog.service";
 import { IntensityBarConfigurationComponent } from "./intensity-bar-configuration/intensity-bar-configuration.component";
+import { IntensityScale } from "./intensity-bar.models";
 import { IntensityBarService } from "./intensity-bar.service";
 
 @Component({
@@ -16,7 +16,7 @@ export class IntensityBarComponent {
     @Input()
     set confusionMatrix(cm: ConfusionMatrix) {
         this._confusionMatrix = cm;
-        this.intensityBarService.updateIntensityValues(cm);
+        this.updateIntensityValues();
     }
 
     get confusionMatrix(): ConfusionMatrix {
@@ -24,9 +24,25 @@ export class IntensityBarComponent {
     }
 
 
+    /**
+     * Values displayed in the confusion matrix, when different from the confusion matrix values
+     * (e.g. percentages). The intensity bar scale is calculated from them.
+     */
+    @Input()
+    set values(values: Array<Array<number>> | undefined) {
+        this._values = values;
+        this.updateIntensityValues();
+    }
+
     @Input()
     intensityHeight = 0;
 
+    /**
+     * Text appended to the intensity bar numbers (e.g. '%').
+     */
+    @Input()
+    suffix = '';
+
     /**
          * Allows to define the numbers display format.
          * If follows the angular decimal pipes rules: 
@@ -42,7 +58,7 @@ export class IntensityBarComponent {
     @Input()
     set levelsColors(levelsColors: Array<string>) {
         this.intensityBarService.setLevelColors(levelsColors);
-        this.intensityBarService.updateIntensityValues(this.confusionMatrix);
+        this.updateIntensityValues();
     }
 
     get levelsColors(): Array<string> {
@@ -52,55 +68,122 @@ export class IntensityBarComponent {
     @Output()
     levelsColorChange = new EventEmitter<Array<string>>();
 
+    /**
+     * When true, the errors (values outside the diagonal) have their own colors and range,
+     * shown in a second intensity bar.
+     */
+    @Input()
+    set separateErrors(separateErrors: boolean) {
+        this.intensityBarService.setSeparateErrors(separateErrors);
+        this.updateIntensityValues();
+    }
+
+    get separateErrors(): boolean {
+        return this.intensityBarService.separateErrors;
+    }
+
+    /**
+     * Sets the errors color levels, used when the errors are separated.
+     */
+    @Input()
+    set errorLevelsColors(errorLevelsColors: Array<string>) {
+        this.intensityBarService.setErrorLevelColors(errorLevelsColors);
+    }
+
+    get errorLevelsColors(): Array<string> {
+        return this.intensityBarService.errorLevelsColors;
+    }
+
+    @Output()
+    errorLevelsColorChange = new EventEmitter<Array<string>>();
+
+    /**
+     * When true, the values go from -max to max (e.g. differences) and should use a diverging palette.
+     */
+    @Input()
+    set diverging(diverging: boolean) {
+        this.intensityBarService.setDiverging(diverging);
+        this.updateIntensityValues();
+    }
+
+    /**
+     * Sets how the values are mapped into the colors (linear, log or power, discrete or continuous).
+     */
+    @Input()
+    set scale(scale: IntensityScale) {
+        this.intensityBarService.setScale(scale);
+    }
+
+    get scale(): IntensityScale {
+        return this.intensityBarService.scale;
+    }
+
+    @Output()
+    scaleChange = new EventEmitter<IntensityScale>();
+
     showConfigurations = false;
 
     _confusionMatrix = new ConfusionMatrix();
 
+    _values: Array<Array<number>> | undefined;
+
     constructor(private intensityBarService: IntensityBarService,
-        private decimalPipe: DecimalPipe,
         private dialogService: DialogService,
-        private utilService: UtilService) {
+        private utilService: UtilService,
+        private injector: Injector,
+        private host: ElementRef) {
     }
 
     /**
         * Gets the background color for the intensity bar.
+        * @param error True for the errors intensity bar.
         * @returns The background color style.
         */
-    getGradientBackground(): { [key: string]: string } {
+    getGradientBackground(error = false): { [key: string]: string } {
         const style = {
-            'background': `linear-gradient(${this.intensityBarService.levelsColors})`
+            'background': `linear-gradient(${this.intensityBarService.getLevelsColors(error)})`
         };
         return style;
     }
 
+    getLevelsColors(error = false): Array<string> {
+        return this.intensityBarService.getLevelsColors(error);
+    }
+
     /**
      * Gets the insensitive number for a given position of the intensity bar. 
      * @param index 
+     * @param error True for the errors intensity bar.
      * @returns 
      */
-    getIntensityNumber(index: number): string {
-
-        if (index === 0) {
-            return '0';
-        } else {
-            const levelsStep = this.intensityBarService.levelsStep;
-            if (this.levelsColors.length > levelsStep * this.levelsColors.length) {
-                return this.decimalPipe.transform((index + 1) * levelsStep, this.roundRules) ?? '0';
-            } else {
-                return String(Math.round((index + 1) * levelsStep));
-            }
+    getIntensityNumber(index: number, error = false): number {
+        return this.intensityBarService.getIntensityNumber(index, error);
+    }
 
-        }
+    updateIntensityValues() {
+        this.intensityBarService.updateIntensityRange(this._values ?? this._confusionMatrix.matrix);
     }
 
-    click() {
-        const configuration = this.utilService.getComponentReference<IntensityBarConfigurationComponent>(IntensityBarConfigurationComponent);
-        configuration.instance.colors = this.levelsColors;
+    click(error = false) {
+        const configuration = this.utilService.getComponentReference<IntensityBarConfigurationComponent>(
+            IntensityBarConfigurationComponent, this.injector);
+        configuration.instance.error = error;
+        configuration.instance.colors = this.getLevelsColors(error);
         configuration.instance.colorsChange.subscribe((colors: Array<string>) => {
-            this.levelsColors = colors;
-            this.levelsColorChange.emit(colors);
+            if (error) {
+                this.errorLevelsColors = colors;
+                this.errorLevelsColorChange.emit(colors);
+            } else {
+                this.levelsColors = colors;
+                this.levelsColorChange.emit(colors);
+            }
+        });
+        configuration.instance.scale = this.scale;
+        configuration.instance.scaleChange.subscribe((scale: IntensityScale) => {
+            this.scale = scale;
+            this.scaleChange.emit(scale);
         });
-        this.dialogService.show(configuration);
+        this.dialogService.show(configuration, this.host.nativeElement);
     }
 
 }
\ No newline at end of file
@@ -0,0 +1,120 @@
+/**
+ * How the confusion matrix values are mapped into the intensity bar.
+ */
+export enum IntensityScaleType {
+    Linear = 'Linear',
+
+    /**
+     * Spreads the small values, useful when a few values (usually the diagonal) are much bigger than the others.
+     */
+    Log = 'Log',
+
+    /**
+     * Maps the values raised to the scale exponent.
+     * Exponents below 1 spread the small values and above 1 the big ones.
+     */
+    Power = 'Power'
+}
+
+export class IntensityScale {
+    type = IntensityScaleType.Linear;
+
+    /**
+     * Exponent used by the power scale.
+     */
+    exponent = 0.5;
+
+    /**
+     * When true, the cell colors are interpolated between the levels colors.
+     * Otherwise each value takes the color of its closest level.
+     */
+    continuous = false;
+
+    constructor(scale?: Partial<IntensityScale>) {
+        Object.assign(this, scale);
+    }
+}
+
+export interface IntensityPalette {
+    name: string;
+
+    /**
+     * Colors ordered from less intense to max intense.
+     */
+    colors: Array<string>;
+
+    /**
+     * Whether the palette can be read by people with the common color vision deficiencies.
+     */
+    colorblindSafe: boolean;
+
+    /**
+     * Whether the palette has a neutral middle color, for values going from -max to max (e.g. differences).
+     */
+    diverging?: boolean;
+}
+
+/**
+ * Built-in intensity bar palettes.
+ * Viridis, Magma, Inferno, Plasma and Cividis are perceptually uniform, the others come from ColorBrewer.
+ * Red-Blue and Purple-Green are diverging palettes.
+ */
+export const IntensityPalettes: Array<IntensityPalette> = [
+    {
+        name: 'Viridis',
+        colors: ['#440154', '#482878', '#3e4989', '#31688e', '#26828e', '#1f9e89', '#35b779', '#6ece58', '#b5de2b', '#fde725'],
+        colorblindSafe: true
+    },
+    {
+        name: 'Magma',
+        colors: ['#000004', '#180f3d', '#440f76', '#721f81', '#9e2f7f', '#cd4071', '#f1605d', '#fd9668', '#feca8d', '#fcfdbf'],
+        colorblindSafe: true
+    },
+    {
+        name: 'Inferno',
+        colors: ['#000004', '#1b0c41', '#4a0c6b', '#781c6d', '#a52c60', '#cf4446', '#ed6925', '#fb9b06', '#f7d13d', '#fcffa4'],
+        colorblindSafe: true
+    },
+    {
+        name: 'Plasma',
+        colors: ['#0d0887', '#46039f', '#7201a8', '#9c179e', '#bd3786', '#d8576b', '#ed7953', '#fb9f3a', '#fdca26', '#f0f921'],
+        colorblindSafe: true
+    },
+    {
+        name: 'Cividis',
+        colors: ['#00224e', '#123570', '#3b496c', '#575d6d', '#707173', '#8a8779', '#a69d75', '#c4b56c', '#e4cf5b', '#fee838'],
+        colorblindSafe: true
+    },
+    {
+        name: 'Blues',
+        colors: ['#f7fbff', '#deebf7', '#c6dbef', '#9ecae1', '#6baed6', '#4292c6', '#2171b5', '#08519c', '#08306b'],
+        colorblindSafe: true
+    },
+    {
+        name: 'Greys',
+        colors: ['#ffffff', '#f0f0f0', '#d9d9d9', '#bdbdbd', '#969696', '#737373', '#525252', '#252525', '#000000'],
+        colorblindSafe: true
+    },
+    {
+        name: 'Reds',
+        colors: ['#fff5f0', '#fee0d2', '#fcbba1', '#fc9272', '#fb6a4a', '#ef3b2c', '#cb181d', '#a50f15', '#67000d'],
+        colorblindSafe: false
+    },
+    {
+        name: 'Greens',
+        colors: ['#f7fcf5', '#e5f5e0', '#c7e9c0', '#a1d99b', '#74c476', '#41ab5d', '#238b45', '#006d2c', '#00441b'],
+        colorblindSafe: false
+    },
+    {
+        name: 'Red-Blue',
+        colors: ['#b2182b', '#d6604d', '#f4a582', '#fddbc7', '#f7f7f7', '#d1e5f0', '#92c5de', '#4393c3', '#2166ac'],
+        colorblindSafe: true,
+        diverging: true
+    },
+    {
+        name: 'Purple-Green',
+        colors: ['#762a83', '#9970ab', '#c2a5cf', '#e7d4e8', '#f7f7f7', '#d9f0d3', '#a6dba0', '#5aae61', '#1b7837'],
+        colorblindSafe: true,
+        diverging: true
+    }
+];
@@ -0,0 +1,58 @@
+import { ColorService } from "../../services/color.service";
+import { IntensityScale, IntensityScaleType } from "./intensity-bar.models";
+import { IntensityBarService } from "./intensity-bar.service";
+
+describe("Intensity bar service test suite", () => {
+
+    let intensityBarService: IntensityBarService;
+
+    beforeEach(() => {
+        intensityBarService = new IntensityBarService(new ColorService());
+        intensityBarService.setLevelColors(['#ffffff', '#808080', '#000000']);
+        intensityBarService.updateIntensityRange([[100, 1], [10, 90]]);
+    });
+
+    it("Can map values into discrete colors.", () => {
+        expect(intensityBarService.getColor(0)).toBe('#ffffff');
+        expect(intensityBarService.getColor(60)).toBe('#808080');
+        expect(intensityBarService.getColor(100)).toBe('#000000');
+    });
+
+    it("Can interpolate continuous colors.", () => {
+        intensityBarService.setScale(new IntensityScale({ continuous: true }));
+        expect(intensityBarService.getColor(25)).toBe('rgb(192, 192, 192)');
+        expect(intensityBarService.getColor(100)).toBe('rgb(0, 0, 0)');
+    });
+
+    it("Can spread the small values with a log scale.", () => {
+        expect(intensityBarService.getColor(10)).toBe('#ffffff');
+        intensityBarService.setScale(new IntensityScale({ type: IntensityScaleType.Log }));
+        expect(intensityBarService.getColor(10)).toBe('#808080');
+        expect(intensityBarService.getValue(intensityBarService.getPosition(10))).toBeCloseTo(10);
+    });
+
+    it("Can use a power scale.", () => {
+        intensityBarService.setScale(new IntensityScale({ type: IntensityScaleType.Power, exponent: 0.5 }));
+        expect(intensityBarService.getPosition(25)).toBeCloseTo(0.5);
+        expect(intensityBarService.getIntensityNumber(1)).toBe(25);
+    });
+
+    it("Can use separate colors and range for the errors.", () => {
+        intensityBarService.setErrorLevelColors(['#ffffff', '#ff0000']);
+        intensityBarService.setSeparateErrors(true);
+        intensityBarService.updateIntensityRange([[100, 1], [10, 90]]);
+        expect(intensityBarService.errorMaxValue).toBe(10);
+        expect(intensityBarService.getColor(10, true)).toBe('#ff0000');
+        expect(intensityBarService.getColor(10)).toBe('#ffffff');
+        expect(intensityBarService.getIntensityNumber(1, true)).toBe(10);
+    });
+
+    it("Can map diverging values around the middle color.", () => {
+        intensityBarService.setDiverging(true);
+        intensityBarService.updateIntensityRange([[-10, 5], [0, 2]]);
+        expect(intensityBarService.getColor(0)).toBe('#808080');
+        expect(intensityBarService.getColor(-10)).toBe('#ffffff');
+        expect(intensityBarService.getColor(10)).toBe('#000000');
+        expect(intensityBarService.getIntensityNumber(0)).toBe(-10);
+    });
+});
@@ -1,5 +1,7 @@
 import { Injectable } from "@angular/core";
 import { ConfusionMatrix } from "@fullexpression/confusion-matrix-stats";
+import { ColorService } from "../../services/color.service";
+import { IntensityScale, IntensityScaleType } from "./intensity-bar.models";
 
 @Injectable()
 export class IntensityBarService {
@@ -8,59 +10,214 @@ export class IntensityBarService {
 
     levelsStep = 0;
 
+    /**
+     * Biggest value of the intensity bar.
+     */
+    maxValue = 0;
+
+    /**
+     * When true, the errors (values outside the diagonal) have their own colors and range.
+     */
+    separateErrors = false;
+
+    errorLevelsColors = new Array<string>();
+
+    errorLevelsStep = 0;
+
+    /**
+     * Biggest error when the errors are separated, otherwise the same as the max value.
+     */
+    errorMaxValue = 0;
+
+    /**
+     * When true, the values go from -max to max (e.g. differences) and the middle color means 0.
+     */
+    diverging = false;
+
+    scale = new IntensityScale();
+
+    constructor(private colorService: ColorService) { }
+
     /**
    * Updates the confusion matrix intensity bar.
    * @param confusionMatrix The new confusion matrix.
    */
     updateIntensityValues(confusionMatrix: ConfusionMatrix): void {
-        let matrix = confusionMatrix.matrix;
-        let max = matrix[0][0];
+        this.updateIntensityRange(confusionMatrix.matrix);
+    }
+
+    /**
+     * Updates the intensity bar scale from the values displayed.
+     * @param matrix The values displayed.
+     */
+    updateIntensityRange(matrix: Array<Array<number>>): void {
+        let max = -Infinity;
+        let errorMax = -Infinity;
         for (let i = 0; i < matrix.length; i++) {
-            for (let j = 0; j < matrix[0].length; j++) {
-                if (max < matrix[i][j]) {
-                    max = matrix[i][j];
+            for (let j = 0; j < matrix[i].length; j++) {
+                const value = this.diverging ? Math.abs(matrix[i][j]) : matrix[i][j];
+                if (this.separateErrors && i !== j) {
+                    errorMax = Math.max(errorMax, value);
+                } else {
+                    max = Math.max(max, value);
                 }
             }
         }
-        this.levelsStep = max / this.levelsColors.length;
-        if (this.levelsStep === Infinity) {
-            this.levelsStep = 0;
-        }
+        this.maxValue = max === -Infinity ? 0 : max;
+        this.errorMaxValue = !this.separateErrors ? this.maxValue : errorMax === -Infinity ? 0 : errorMax;
+        this.updateLevelsSteps();
     }
 
     setLevelColors(colors: Array<string>) {
         this.levelsColors = colors;
+        this.updateLevelsSteps();
+    }
+
+    setErrorLevelColors(colors: Array<string>) {
+        this.errorLevelsColors = colors;
+        this.updateLevelsSteps();
+    }
+
+    /**
+     * Sets whether the errors have their own colors and range.
+     * The intensity range must be updated afterwards.
+     * @param separateErrors True to separate the errors.
+     */
+    setSeparateErrors(separateErrors: boolean) {
+        this.separateErrors = separateErrors;
+    }
+
+    /**
+     * Sets whether the values go from -max to max.
+     * The intensity range must be updated afterwards.
+     * @param diverging True for diverging values.
+     */
+    setDiverging(diverging: boolean) {
+        this.diverging = diverging;
+    }
+
+    setScale(scale: IntensityScale) {
+        this.scale = scale;
+    }
+
+    /**
+     * Gets the colors of the correct values or of the errors.
+     * @param error True for the errors colors, only different when the errors are separated.
+     * @returns The levels colors.
+     */
+    getLevelsColors(error = false): Array<string> {
+        return error && this.separateErrors ? this.errorLevelsColors : this.levelsColors;
     }
 
     /**
      * Given a value, returns the color intensity associated with.
-     * @return Color intensity in hexadecimal.
+     * @param value The value.
+     * @param error True if the value is an error (outside the diagonal).
+     * @return Color intensity in hexadecimal, or rgb() when the colors are continuous.
      */
-    getColor(value: number): string {
-        const levelsNumber = this.levelsColors.length;
+    getColor(value: number, error = false): string {
+        const levelsColors = this.getLevelsColors(error);
+        const levelsNumber = levelsColors.length;
+        const position = this.getPosition(value, error);
+        if (this.scale.continuous && levelsNumber > 1) {
+            return this.colorService.toCss(this.colorService.interpolate(levelsColors, position));
+        }
+        if (this.diverging) {
+            return levelsColors[Math.round(position * (levelsNumber - 1))];
+        }
         for (let i = 1; i <= levelsNumber; i++) {
-            if (this.levelsStep * i >= (value - (this.levelsStep / 2))) {
-                return this.levelsColors[i - 1];
+            if (i >= position * levelsNumber - 0.5) {
+                return levelsColors[i - 1];
             }
         }
-        return this.levelsColors[0];
+        return levelsColors[levelsNumber - 1];
+    }
+
+    /**
+     * Gets the relative position of a value in the intensity bar, according to the scale.
+     * @param value The value.
+     * @param error True if the value is an error (outside the diagonal).
+     * @returns The position, from 0 (no intensity, or -max when diverging) to 1 (max intensity).
+     */
+    getPosition(value: number, error = false): number {
+        const maxValue = this.getMaxValue(error);
+        if (this.diverging) {
+            const magnitude = maxValue > 0 ? this.getMagnitude(Math.abs(value), maxValue) : 0;
+            return 0.5 + Math.sign(value) * magnitude / 2;
+        }
+        if (maxValue <= 0 || value <= 0) {
+            return 0;
+        }
+        return this.getMagnitude(value, maxValue);
+    }
+
+    /**
+     * Gets the value at a relative position of the intensity bar, according to the scale.
+     * @param position The position, from 0 to 1.
+     * @param error True for the errors range.
+     * @returns The value.
+     */
+    getValue(position: number, error = false): number {
+        const maxValue = this.getMaxValue(error);
+        if (this.diverging) {
+            const signed = 2 * position - 1;
+            return Math.sign(signed) * this.getMagnitudeValue(Math.abs(signed), maxValue);
+        }
+        return this.getMagnitudeValue(position, maxValue);
     }
 
 
     /**
-     * Gets the insensitive number for a given position of the intensity bar. 
-     * @param index 
-     * @returns 
+     * Gets the insensitive number for a given position of the intensity bar.
+     * @param index
+     * @param error True for the errors intensity bar.
+     * @returns
      */
-    getIntensityNumber(index: number): number {
-        if (index === 0) {
+    getIntensityNumber(index: number, error = false): number {
+        if (index === 0 && !this.diverging) {
             return 0;
+        }
+        const levelsNumber = this.getLevelsColors(error).length;
+        const levelsStep = error && this.separateErrors ? this.errorLevelsStep : this.levelsStep;
+        const value = this.scale.type === IntensityScaleType.Linear && !this.diverging ? (index + 1) * levelsStep :
+            this.getValue(index / (levelsNumber - 1), error);
+        if (levelsNumber > levelsStep * levelsNumber) {
+            return value;
         } else {
-            if (this.levelsColors.length > this.levelsStep * this.levelsColors.length) {
-                return (index + 1) * this.levelsStep;
-            } else {
-                return Math.round((index + 1) * this.levelsStep);
-            }
+            return Math.round(value);
+        }
+    }
+
+    /**
+     * Maps a positive value into the scale, from 0 to 1.
+     */
+    private getMagnitude(value: number, maxValue: number): number {
+        const ratio = Math.min(value / maxValue, 1);
+        switch (this.scale.type) {
+            case IntensityScaleType.Log:
+                return Math.log1p(Math.min(value, maxValue)) / Math.log1p(maxValue);
+            case IntensityScaleType.Power:
+                return Math.pow(ratio, this.scale.exponent);
+        }
+        return ratio;
+    }
+
+    private getMagnitudeValue(position: number, maxValue: number): number {
+        switch (this.scale.type) {
+            case IntensityScaleType.Log:
+                return Math.expm1(position * Math.log1p(maxValue));
+            case IntensityScaleType.Power:
+                return Math.pow(position, 1 / this.scale.exponent) * maxValue;
         }
+        return position * maxValue;
+    }
+
+    private getMaxValue(error: boolean): number {
+        return error && this.separateErrors ? this.errorMaxValue : this.maxValue;
+    }
+
+    private updateLevelsSteps() {
+        this.levelsStep = this.levelsColors.length > 0 ? this.maxValue / this.levelsColors.length : 0;
+        this.errorLevelsStep = this.errorLevelsColors.length > 0 ? this.errorMaxValue / this.errorLevelsColors.length : 0;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,12 @@
+/**
+ * Merge of a label into another one: their rows and columns are summed and the source label is removed.
+ */
+export interface LabelMergeEvent {
+    source: string;
+    target: string;
+}
+
+export interface LabelRenameEvent {
+    label: string;
+    name: string;
+}
@@ -0,0 +1,9 @@
+import { LabelEditComponent } from "./label-edit.component";
+
+describe("Label edit component test suite", () => {
+
+    it("Can initialize correctly.", () => {
+        const labelEdit = new LabelEditComponent();
+        expect(labelEdit).toBeTruthy();
+    });
+});
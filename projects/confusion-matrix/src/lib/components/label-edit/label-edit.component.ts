@@ -0,0 +1,82 @@
+import { Component, DoCheck, EventEmitter, Input, Output } from "@angular/core";
+import { CustomSelectValue } from "../html-basics/select/custom-select.models";
+import { LabelMergeEvent, LabelRenameEvent } from "./label-edit.component.model";
+
+/**
+ * Dialog merging, renaming and bulk remapping the confusion matrix labels.
+ */
+@Component({
+    selector: 'label-edit',
+    templateUrl: './label-edit.component.html',
+    styleUrls: ['./label-edit.component.scss']
+})
+export class LabelEditComponent implements DoCheck {
+
+    @Input()
+    visible = true;
+
+    @Output()
+    visibleChange = new EventEmitter<boolean>();
+
+    @Input()
+    labels = new Array<string>();
+
+    @Output()
+    merge = new EventEmitter<LabelMergeEvent>();
+
+    @Output()
+    rename = new EventEmitter<LabelRenameEvent>();
+
+    /**
+     * Emitted when a label mapping file should be imported.
+     */
+    @Output()
+    importMapping = new EventEmitter<void>();
+
+    labelsValues = new Array<CustomSelectValue>();
+
+    source: CustomSelectValue | undefined;
+
+    target: CustomSelectValue | undefined;
+
+    renamed: CustomSelectValue | undefined;
+
+    name = '';
+
+    /**
+     * The labels the options were built from, as the labels are edited in place.
+     */
+    private labelsKey = '';
+
+    ngDoCheck(): void {
+        const labelsKey = JSON.stringify(this.labels);
+        if (labelsKey !== this.labelsKey) {
+            this.labelsKey = labelsKey;
+            this.labelsValues = this.labels.map((label, index) => ({ id: String(index), text: label }));
+            this.source = this.labelsValues[0];
+            this.target = this.labelsValues[1];
+            this.renamed = this.labelsValues[0];
+        }
+    }
+
+    mergeLabels() {
+        const source = this.getLabel(this.source);
+        const target = this.getLabel(this.target);
+        if (source !== undefined && target !== undefined && source !== target) {
+            this.merge.emit({ source, target });
+        }
+    }
+
+    renameLabel() {
+        const label = this.getLabel(this.renamed);
+        const name = this.name.trim();
+        if (label !== undefined && name && name !== label) {
+            this.rename.emit({ label, name });
+            this.name = '';
+        }
+    }
+
+    private getLabel(selected: CustomSelectValue | undefined): string | undefined {
+        return selected ? this.labels[Number(selected.id)] : undefined;
+    }
+}
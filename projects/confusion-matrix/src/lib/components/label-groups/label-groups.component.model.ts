@@ -0,0 +1,39 @@
+/**
+ * A super-class grouping several labels, e.g. Negative emotions = {Sadness, Fear, Disgust, Anger}.
+ */
+export interface LabelGroup {
+    name: string;
+    labels: Array<string>;
+
+    /**
+     * When true, the group rows and columns are summed into one.
+     */
+    collapsed?: boolean;
+}
+
+/**
+ * A label as displayed: a label of the confusion matrix, or a collapsed group summing its members.
+ */
+export interface DisplayedLabel {
+    label: string;
+
+    /**
+     * The confusion matrix labels behind the displayed label.
+     */
+    members: Array<string>;
+
+    /**
+     * The group the label belongs to, or collapses.
+     */
+    group?: LabelGroup;
+}
+
+/**
+ * Consecutive displayed labels of the same group, shown under one bracket header.
+ * Labels out of any group have spans without group.
+ */
+export interface LabelGroupSpan {
+    group?: LabelGroup;
+    start: number;
+    length: number;
+}
@@ -0,0 +1,9 @@
+import { LabelGroupsComponent } from "./label-groups.component";
+
+describe("Label groups component test suite", () => {
+
+    it("Can initialize correctly.", () => {
+        const labelGroups = new LabelGroupsComponent();
+        expect(labelGroups).toBeTruthy();
+    });
+});
@@ -0,0 +1,70 @@
+import { Component, EventEmitter, Input, Output } from "@angular/core";
+import { LabelGroup } from "./label-groups.component.model";
+
+/**
+ * Dialog defining the label groups (super-classes).
+ */
+@Component({
+    selector: 'label-groups',
+    templateUrl: './label-groups.component.html',
+    styleUrls: ['./label-groups.component.scss']
+})
+export class LabelGroupsComponent {
+
+    @Input()
+    visible = true;
+
+    @Output()
+    visibleChange = new EventEmitter<boolean>();
+
+    /**
+     * The confusion matrix labels that can be grouped.
+     */
+    @Input()
+    labels = new Array<string>();
+
+    @Input()
+    groups = new Array<LabelGroup>();
+
+    @Output()
+    groupsChange = new EventEmitter<Array<LabelGroup>>();
+
+    add() {
+        this.groups = [...this.groups, { name: `Group ${this.groups.length + 1}`, labels: [] }];
+        this.groupsChange.emit(this.groups);
+    }
+
+    remove(index: number) {
+        this.groups = this.groups.filter((_, position) => position !== index);
+        this.groupsChange.emit(this.groups);
+    }
+
+    rename(group: LabelGroup, name: string) {
+        if (name.trim()) {
+            this.update(group, { ...group, name: name.trim() });
+        }
+    }
+
+    changeCollapsed(group: LabelGroup) {
+        this.update(group, { ...group, collapsed: !group.collapsed });
+    }
+
+    /**
+     * Adds or removes a label of a group. A label belongs to one group at most.
+     */
+    changeLabel(group: LabelGroup, label: string) {
+        if (group.labels.includes(label)) {
+            this.update(group, { ...group, labels: group.labels.filter(member => member !== label) });
+        } else {
+            this.groups = this.groups.map(other => other === group ?
+                { ...group, labels: this.labels.filter(member => member === label || group.labels.includes(member)) } :
+                { ...other, labels: other.labels.filter(member => member !== label) });
+            this.groupsChange.emit(this.groups);
+        }
+    }
+
+    private update(group: LabelGroup, updated: LabelGroup) {
+        this.groups = this.groups.map(other => other === group ? updated : other);
+        this.groupsChange.emit(this.groups);
+    }
+}
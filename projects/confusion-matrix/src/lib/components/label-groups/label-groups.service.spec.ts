@@ -0,0 +1,31 @@
+import { ConfusionMatrix } from "@fullexpression/confusion-matrix-stats";
+import { LabelGroup } from "./label-groups.component.model";
+import { LabelGroupsService } from "./label-groups.service";
+
+describe("Label groups service test suite", () => {
+
+    const labelGroupsService = new LabelGroupsService();
+    const confusionMatrix = new ConfusionMatrix({
+        labels: ['Happiness', 'Sadness', 'Fear', 'Anger'],
+        matrix: [[10, 1, 0, 2], [1, 8, 3, 1], [0, 2, 7, 4], [1, 0, 2, 9]]
+    });
+    const negative: LabelGroup = { name: 'Negative', labels: ['Sadness', 'Fear', 'Anger'], collapsed: true };
+
+    it("Can sum the collapsed group rows and columns.", () => {
+        const collapsed = labelGroupsService.collapse(confusionMatrix, [negative]);
+        expect(collapsed.labels).toEqual(['Happiness', 'Negative']);
+        expect(collapsed.matrix).toEqual([[10, 3], [2, 36]]);
+    });
+
+    it("Keeps the groups not collapsed unless all are collapsed.", () => {
+        const group = { ...negative, collapsed: false };
+        expect(labelGroupsService.collapse(confusionMatrix, [group]).labels).toEqual(confusionMatrix.labels);
+        expect(labelGroupsService.collapse(confusionMatrix, [group], true).labels).toEqual(['Happiness', 'Negative']);
+    });
+
+    it("Can split the displayed labels into group spans.", () => {
+        const group = { ...negative, collapsed: false };
+        const spans = labelGroupsService.getSpans(labelGroupsService.getDisplayedLabels(confusionMatrix.labels, [group]));
+        expect(spans).toEqual([{ group: undefined, start: 0, length: 1 }, { group, start: 1, length: 3 }]);
+    });
+});
@@ -0,0 +1,81 @@
+import { Injectable } from "@angular/core";
+import { ConfusionMatrix } from "@fullexpression/confusion-matrix-stats";
+import { DisplayedLabel, LabelGroup, LabelGroupSpan } from "./label-groups.component.model";
+
+@Injectable()
+export class LabelGroupsService {
+
+    /**
+     * Gets the labels displayed once the collapsed groups are summed.
+     * A collapsed group takes the place of its first member. A label in several groups belongs to the first one.
+     * @param labels The confusion matrix labels.
+     * @param groups The label groups.
+     * @param collapseAll Collapses all the groups, collapsed or not (e.g. for the super-classes metrics).
+     * @returns The displayed labels, with the confusion matrix labels behind each one.
+     */
+    getDisplayedLabels(labels: Array<string>, groups: Array<LabelGroup>, collapseAll = false): Array<DisplayedLabel> {
+        const displayed = new Array<DisplayedLabel>();
+        const collapsedGroups = new Set<LabelGroup>();
+        for (const label of labels) {
+            const group = this.getGroup(label, groups);
+            if (!group || (!group.collapsed && !collapseAll)) {
+                displayed.push({ label, members: [label], group });
+            } else if (!collapsedGroups.has(group)) {
+                collapsedGroups.add(group);
+                const members = labels.filter(member => this.getGroup(member, groups) === group);
+                displayed.push({ label: group.name, members, group });
+            }
+        }
+        return displayed;
+    }
+
+    /**
+     * Sums the values of the displayed labels members.
+     * @param matrix The values, in the labels order.
+     * @param labels The values labels.
+     * @param displayed The displayed labels.
+     * @returns The summed values, in the displayed labels order.
+     */
+    collapseValues(matrix: Array<Array<number>>, labels: Array<string>, displayed: Array<DisplayedLabel>): Array<Array<number>> {
+        const indexes = displayed.map(label => label.members.map(member => labels.indexOf(member)).filter(index => index >= 0));
+        return indexes.map(rows => indexes.map(columns =>
+            rows.reduce((sum, row) => sum + columns.reduce((rowSum, column) => rowSum + (matrix[row]?.[column] ?? 0), 0), 0)));
+    }
+
+    /**
+     * Gets the confusion matrix with the collapsed groups rows and columns summed into one.
+     * @param confusionMatrix The confusion matrix.
+     * @param groups The label groups.
+     * @param collapseAll Collapses all the groups, collapsed or not.
+     * @returns The collapsed confusion matrix.
+     */
+    collapse(confusionMatrix: ConfusionMatrix, groups: Array<LabelGroup>, collapseAll = false): ConfusionMatrix {
+        const displayed = this.getDisplayedLabels(confusionMatrix.labels, groups, collapseAll);
+        return new ConfusionMatrix({
+            labels: displayed.map(label => label.label),
+            matrix: this.collapseValues(confusionMatrix.matrix, confusionMatrix.labels, displayed)
+        });
+    }
+
+    /**
+     * Splits the displayed labels into spans of consecutive labels of the same group.
+     * @param displayed The displayed labels.
+     * @returns The spans, in the displayed labels order.
+     */
+    getSpans(displayed: Array<DisplayedLabel>): Array<LabelGroupSpan> {
+        const spans = new Array<LabelGroupSpan>();
+        displayed.forEach((label, index) => {
+            const last = spans[spans.length - 1];
+            if (last && last.group && last.group === label.group) {
+                last.length++;
+            } else {
+                spans.push({ group: label.group, start: index, length: 1 });
+            }
+        });
+        return spans;
+    }
+
+    private getGroup(label: string, groups: Array<LabelGroup>): LabelGroup | undefined {
+        return groups.find(group => group.labels.includes(label));
+    }
+}
@@ -0,0 +1,40 @@
+/**
+ * One-click orderings of the confusion matrix labels.
+ */
+export enum LabelOrder {
+    Alphabetical = 'Alphabetical',
+    Support = 'Support',
+    Recall = 'Recall',
+
+    /**
+     * Hierarchical clustering order: mutually confused labels are placed next to each other.
+     */
+    Clustering = 'Clustering'
+}
+
+/**
+ * A node of the labels hierarchical clustering tree: a label, or the merge of two clusters.
+ */
+export interface DendrogramNode {
+
+    /**
+     * The labels of the cluster, in the clustering order.
+     */
+    labels: Array<string>;
+
+    /**
+     * Distance at which the two children were merged, 0 for a label.
+     */
+    height: number;
+    children?: [DendrogramNode, DendrogramNode];
+}
+
+/**
+ * A segment of the dendrogram drawn along the rows, in pixels.
+ */
+export interface DendrogramLine {
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+}
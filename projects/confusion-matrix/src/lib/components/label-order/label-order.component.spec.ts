@@ -0,0 +1,9 @@
+import { LabelOrderComponent } from "./label-order.component";
+
+describe("Label order component test suite", () => {
+
+    it("Can initialize correctly.", () => {
+        const labelOrder = new LabelOrderComponent();
+        expect(labelOrder).toBeTruthy();
+    });
+});
@@ -0,0 +1,43 @@
+import { Component, EventEmitter, Input, Output } from "@angular/core";
+import { LabelOrder } from "./label-order.component.model";
+
+/**
+ * Dialog reordering the confusion matrix labels in one click.
+ */
+@Component({
+    selector: 'label-order',
+    templateUrl: './label-order.component.html',
+    styleUrls: ['./label-order.component.scss']
+})
+export class LabelOrderComponent {
+
+    @Input()
+    visible = true;
+
+    @Output()
+    visibleChange = new EventEmitter<boolean>();
+
+    /**
+     * When true, the clustering dendrogram is drawn along the rows.
+     */
+    @Input()
+    dendrogram = true;
+
+    @Output()
+    dendrogramChange = new EventEmitter<boolean>();
+
+    @Output()
+    order = new EventEmitter<LabelOrder>();
+
+    orders = [
+        { order: LabelOrder.Alphabetical, text: 'Alphabetical' },
+        { order: LabelOrder.Support, text: 'By support' },
+        { order: LabelOrder.Recall, text: 'By recall' },
+        { order: LabelOrder.Clustering, text: 'By confusion' }
+    ];
+
+    changeDendrogram() {
+        this.dendrogram = !this.dendrogram;
+        this.dendrogramChange.emit(this.dendrogram);
+    }
+}
@@ -0,0 +1,32 @@
+import { LabelOrder } from "./label-order.component.model";
+import { LabelOrderService } from "./label-order.service";
+
+describe("Label order service test suite", () => {
+
+    const labelOrderService = new LabelOrderService();
+    const labels = ['Happiness', 'Sadness', 'Fear', 'Anger'];
+    const matrix = [[10, 1, 0, 1], [1, 8, 0, 5], [0, 1, 20, 0], [1, 6, 0, 9]];
+
+    it("Can order the labels alphabetically, by support and by recall.", () => {
+        expect(labelOrderService.getOrder(labels, matrix, LabelOrder.Alphabetical))
+            .toEqual(['Anger', 'Fear', 'Happiness', 'Sadness']);
+        expect(labelOrderService.getOrder(labels, matrix, LabelOrder.Support)).toEqual(['Fear', 'Anger', 'Sadness', 'Happiness']);
+        expect(labelOrderService.getOrder(labels, matrix, LabelOrder.Recall)).toEqual(['Fear', 'Happiness', 'Sadness', 'Anger']);
+    });
+
+    it("Places the mutually confused labels next to each other.", () => {
+        const root = labelOrderService.cluster(labels, matrix);
+        expect(root.labels).toEqual(['Happiness', 'Sadness', 'Anger', 'Fear']);
+        expect(root.children?.[0].labels).toEqual(['Happiness', 'Sadness', 'Anger']);
+        expect(root.height).toBeCloseTo(1 - 1 / 105);
+    });
+
+    it("Can draw the dendrogram with the labels at the right.", () => {
+        const lines = labelOrderService.getDendrogramLines(labelOrderService.cluster(['A', 'B'], [[1, 1], [1, 1]]), 60);
+        expect(lines).toEqual([
+            { x1: 0, y1: 20, x2: 0, y2: 60 },
+            { x1: 0, y1: 20, x2: 60, y2: 20 },
+            { x1: 0, y1: 60, x2: 60, y2: 60 }
+        ]);
+    });
+});
@@ -0,0 +1,104 @@
+import { Injectable } from "@angular/core";
+import { DendrogramLine, DendrogramNode, LabelOrder } from "./label-order.component.model";
+
+@Injectable()
+export class LabelOrderService {
+
+    /**
+     * Gets the labels in a new order.
+     * Support and recall orders put the highest values first, equal values keep their current order.
+     * @param labels The confusion matrix labels.
+     * @param matrix The confusion matrix values, rows holding the actual labels.
+     * @param order The order.
+     * @returns The ordered labels.
+     */
+    getOrder(labels: Array<string>, matrix: Array<Array<number>>, order: LabelOrder): Array<string> {
+        const supports = matrix.map(row => row.reduce((sum, value) => sum + value, 0));
+        const byValue = (values: Array<number>) => labels.map((label, index) => ({ label, value: values[index] }))
+            .sort((a, b) => b.value - a.value)
+            .map(item => item.label);
+        switch (order) {
+            case LabelOrder.Alphabetical:
+                return [...labels].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+            case LabelOrder.Support:
+                return byValue(supports);
+            case LabelOrder.Recall:
+                return byValue(matrix.map((row, index) => supports[index] > 0 ? row[index] / supports[index] : 0));
+            case LabelOrder.Clustering:
+                return this.cluster(labels, matrix).labels;
+        }
+    }
+
+    /**
+     * Clusters the labels by confusion affinity (average linkage).
+     * The distance between two labels is 1 minus their confusion rate in both directions:
+     * (matrix[a][b] + matrix[b][a]) / (support of a + support of b).
+     * @param labels The confusion matrix labels.
+     * @param matrix The confusion matrix values, rows holding the actual labels.
+     * @returns The clustering tree root.
+     */
+    cluster(labels: Array<string>, matrix: Array<Array<number>>): DendrogramNode {
+        const supports = matrix.map(row => row.reduce((sum, value) => sum + value, 0));
+        const distances = labels.map((_, a) => labels.map((__, b) => {
+            const support = supports[a] + supports[b];
+            return support > 0 ? 1 - (matrix[a][b] + matrix[b][a]) / support : 1;
+        }));
+
+        let clusters = labels.map((label, index) => ({ node: { labels: [label], height: 0 } as DendrogramNode, members: [index] }));
+        while (clusters.length > 1) {
+            let closest = { first: 0, second: 1, distance: Infinity };
+            for (let first = 0; first < clusters.length; first++) {
+                for (let second = first + 1; second < clusters.length; second++) {
+                    const distance = this.getAverageDistance(distances, clusters[first].members, clusters[second].members);
+                    if (distance < closest.distance) {
+                        closest = { first, second, distance };
+                    }
+                }
+            }
+            const first = clusters[closest.first];
+            const second = clusters[closest.second];
+            const merged = {
+                node: {
+                    labels: [...first.node.labels, ...second.node.labels],
+                    height: closest.distance,
+                    children: [first.node, second.node]
+                } as DendrogramNode,
+                members: [...first.members, ...second.members]
+            };
+            clusters = clusters.filter(cluster => cluster !== second).map(cluster => cluster === first ? merged : cluster);
+        }
+        return clusters[0]?.node ?? { labels: [], height: 0 };
+    }
+
+    /**
+     * Gets the dendrogram segments, the labels at the right and the root at the left.
+     * @param root The clustering tree root.
+     * @param width The dendrogram width.
+     * @param labelSize The height of a label row.
+     * @returns The dendrogram segments.
+     */
+    getDendrogramLines(root: DendrogramNode, width: number, labelSize = 40): Array<DendrogramLine> {
+        const lines = new Array<DendrogramLine>();
+        const scale = root.height > 0 ? width / root.height : 0;
+        let leaf = 0;
+        const draw = (node: DendrogramNode): { x: number, y: number } => {
+            if (!node.children) {
+                return { x: width, y: leaf++ * labelSize + labelSize / 2 };
+            }
+            const x = width - node.height * scale;
+            const [first, second] = node.children.map(child => draw(child));
+            lines.push({ x1: x, y1: first.y, x2: x, y2: second.y });
+            lines.push({ x1: x, y1: first.y, x2: first.x, y2: first.y });
+            lines.push({ x1: x, y1: second.y, x2: second.x, y2: second.y });
+            return { x, y: (first.y + second.y) / 2 };
+        };
+        draw(root);
+        return lines;
+    }
+
+    private getAverageDistance(distances: Array<Array<number>>, first: Array<number>, second: Array<number>): number {
+        let sum = 0;
+        first.forEach(a => second.forEach(b => sum += distances[a][b]));
+        return sum / (first.length * second.length);
+    }
+}
@@ -0,0 +1,27 @@
+/**
+ * A confusion matrix value drawn on the canvas, rows holding the actual labels.
+ */
+export interface CanvasCell {
+    row: number;
+    column: number;
+}
+
+/**
+ * The part of the confusion matrix visible in the canvas, in labels.
+ */
+export interface CanvasRegion {
+    firstRow: number;
+    firstColumn: number;
+    lastRow: number;
+    lastColumn: number;
+}
+
+/**
+ * The visible part of the confusion matrix, as fractions (0 to 1) of its width and height.
+ */
+export interface CanvasViewport {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
@@ -0,0 +1,11 @@
+import { NgZone } from "@angular/core";
+import { ThemeService } from "../../services/theme.service";
+import { MatrixCanvasComponent } from "./matrix-canvas.component";
+
+describe("Matrix canvas component test suite", () => {
+
+    it("Can initialize correctly.", () => {
+        const matrixCanvas = new MatrixCanvasComponent(new ThemeService(), new NgZone({}));
+        expect(matrixCanvas).toBeTruthy();
+    });
+});
@@ -0,0 +1,483 @@
+import {
+    AfterViewInit, Component, ElementRef, EventEmitter, Input, NgZone, OnChanges, OnDestroy, Output, SimpleChanges, ViewChild
+} from "@angular/core";
+import { ThemeColors, ThemeService } from "../../services/theme.service";
+import { CanvasCell, CanvasRegion, CanvasViewport } from "./matrix-canvas.component.model";
+
+/**
+ * Draws large confusion matrices on a canvas, only the visible values are drawn.
+ * The matrix is panned by dragging or scrolling, and zoomed with ctrl + scroll (or pinching).
+ * With the keyboard, arrows move between values, announced to screen readers, and Enter clicks the current one.
+ * The canvas is redrawn outside of Angular, only when an input, the visible values, the hovered or the keyboard value change.
+ */
+@Component({
+    selector: 'matrix-canvas',
+    templateUrl: './matrix-canvas.component.html',
+    styleUrls: ['./matrix-canvas.component.scss']
+})
+export class MatrixCanvasComponent implements OnChanges, AfterViewInit, OnDestroy {
+
+    @Input()
+    labels = new Array<string>();
+
+    @Input()
+    cellColor: (row: number, column: number) => string = () => '#ffffff';
+
+    @Input()
+    cellTextColor: (row: number, column: number) => string = () => '#000000';
+
+    @Input()
+    cellText: (row: number, column: number) => string = () => '';
+
+    /**
+     * Description of a value read by screen readers when it is reached with the keyboard.
+     */
+    @Input()
+    cellLabel: (row: number, column: number) => string = (row, column) => this.cellText(row, column);
+
+    /**
+     * Draws the values borders, so they can be told apart without relying on their color.
+     */
+    @Input()
+    highContrast = false;
+
+    /**
+     * Largest width and height of the drawn values, in pixels. The other values are reached by panning.
+     */
+    @Input()
+    viewportSize = 720;
+
+    /**
+     * Index of a label whose row and column are highlighted, e.g. found by a search.
+     */
+    @Input()
+    focusedLabel: number | undefined;
+
+    /**
+     * Changes when the values texts or colors change while the other inputs stay the same,
+     * e.g. the levels colors or the theme, so the canvas is redrawn.
+     */
+    @Input()
+    colorsKey = '';
+
+    @Output()
+    cellHover = new EventEmitter<CanvasCell>();
+
+    @Output()
+    cellLeave = new EventEmitter<void>();
+
+    @Output()
+    cellClick = new EventEmitter<CanvasCell>();
+
+    @ViewChild('canvas') canvas: ElementRef<HTMLCanvasElement> | undefined;
+
+    /**
+     * Width of the row labels and height of the column labels, in pixels.
+     */
+    readonly labelsSize = 120;
+
+    readonly minCellSize = 4;
+    readonly maxCellSize = 80;
+
+    /**
+     * Cells smaller than this have no text, labels smaller than the half have no text either.
+     */
+    readonly textCellSize = 24;
+
+    cellSize = 40;
+
+    /**
+     * The hovered value, with the tooltip position.
+     */
+    hovered: (CanvasCell & { x: number, y: number }) | undefined;
+
+    /**
+     * The value reached with the keyboard, and its description announced to screen readers.
+     */
+    keyboardCell: CanvasCell | undefined;
+    announcement = '';
+
+    /**
+     * The visible part of the values, updated when panning and zooming.
+     */
+    viewport: CanvasViewport = { x: 0, y: 0, width: 1, height: 1 };
+
+    /**
+     * Scroll position of the values, in pixels.
+     */
+    private offsetX = 0;
+    private offsetY = 0;
+
+    private pan: { x: number, y: number, offsetX: number, offsetY: number, moved: boolean } | undefined;
+    private frame: number | undefined;
+
+    /**
+     * Theme colors used in the drawing, read again when the colors key changes.
+     */
+    private themeColors: Pick<ThemeColors, 'highlight' | 'searchHighlight' | 'text' | 'accent'> | undefined;
+
+    constructor(private themeService: ThemeService, private zone: NgZone) { }
+
+    /**
+     * Width and height of the drawn values, in pixels.
+     */
+    get matrixSize(): number {
+        return Math.min(this.labels.length * this.cellSize, this.viewportSize);
+    }
+
+    get size(): number {
+        return this.labelsSize + this.matrixSize;
+    }
+
+    get panning(): boolean {
+        return !!this.pan?.moved;
+    }
+
+    /**
+     * Gets the visible labels range.
+     */
+    get visibleRegion(): CanvasRegion {
+        const last = this.labels.length - 1;
+        return {
+            firstRow: Math.floor(this.offsetY / this.cellSize),
+            firstColumn: Math.floor(this.offsetX / this.cellSize),
+            lastRow: Math.min(last, Math.floor((this.offsetY + this.matrixSize - 1) / this.cellSize)),
+            lastColumn: Math.min(last, Math.floor((this.offsetX + this.matrixSize - 1) / this.cellSize))
+        };
+    }
+
+    ngOnChanges(changes: SimpleChanges): void {
+        if (changes.colorsKey) {
+            this.themeColors = undefined;
+        }
+        if (changes.labels) {
+            // Keeps the scroll position inside the matrix when labels are removed or collapsed.
+            this.scroll(this.offsetX, this.offsetY);
+        }
+        this.scheduleDraw();
+    }
+
+    ngAfterViewInit(): void {
+        this.scheduleDraw();
+    }
+
+    ngOnDestroy(): void {
+        if (this.frame !== undefined) {
+            cancelAnimationFrame(this.frame);
+        }
+    }
+
+    /**
+     * Pans the values, or zooms around the pointer when ctrl is pressed.
+     */
+    onWheel(event: WheelEvent) {
+        event.preventDefault();
+        if (event.ctrlKey || event.metaKey) {
+            const factor = Math.exp(-event.deltaY / 300);
+            this.zoom(this.cellSize * factor, event.offsetX - this.labelsSize, event.offsetY);
+        } else {
+            this.scroll(this.offsetX + (event.shiftKey ? event.deltaY : event.deltaX),
+                this.offsetY + (event.shiftKey ? 0 : event.deltaY));
+        }
+    }
+
+    onMouseDown(event: MouseEvent) {
+        this.pan = { x: event.clientX, y: event.clientY, offsetX: this.offsetX, offsetY: this.offsetY, moved: false };
+    }
+
+    onMouseMove(event: MouseEvent) {
+        if (this.pan) {
+            const x = event.clientX - this.pan.x;
+            const y = event.clientY - this.pan.y;
+            if (this.pan.moved || Math.abs(x) + Math.abs(y) > 3) {
+                this.pan.moved = true;
+                this.leave();
+                this.scroll(this.pan.offsetX - x, this.pan.offsetY - y);
+                return;
+            }
+        }
+
+        const cell = this.getCell(event.offsetX, event.offsetY);
+        if (!cell) {
+            this.leave();
+        } else if (cell.row !== this.hovered?.row || cell.column !== this.hovered?.column) {
+            this.hovered = { ...cell, x: event.offsetX, y: event.offsetY };
+            this.cellHover.emit(cell);
+            this.scheduleDraw();
+        }
+    }
+
+    onMouseUp(event: MouseEvent) {
+        const cell = this.getCell(event.offsetX, event.offsetY);
+        if (this.pan && !this.pan.moved && cell) {
+            this.cellClick.emit(cell);
+        }
+        this.pan = undefined;
+    }
+
+    onMouseLeave() {
+        this.pan = undefined;
+        this.leave();
+    }
+
+    onKeyDown(event: KeyboardEvent) {
+        const moves: { [key: string]: CanvasCell } = {
+            ArrowUp: { row: -1, column: 0 },
+            ArrowDown: { row: 1, column: 0 },
+            ArrowLeft: { row: 0, column: -1 },
+            ArrowRight: { row: 0, column: 1 }
+        };
+        const move = moves[event.key];
+        if (event.key === 'Enter' && this.keyboardCell) {
+            event.preventDefault();
+            this.cellClick.emit(this.keyboardCell);
+        } else if (move && this.labels.length > 0) {
+            event.preventDefault();
+            const last = this.labels.length - 1;
+            const row = Math.max(0, Math.min(last, (this.keyboardCell?.row ?? 0) + (this.keyboardCell ? move.row : 0)));
+            const column = Math.max(0, Math.min(last, (this.keyboardCell?.column ?? 0) + (this.keyboardCell ? move.column : 0)));
+            this.moveTo({ row, column });
+        }
+    }
+
+    onBlur() {
+        this.keyboardCell = undefined;
+        this.leave();
+        this.scheduleDraw();
+    }
+
+    /**
+     * Scrolls the values, kept inside the matrix.
+     * @param x The horizontal scroll position, in pixels.
+     * @param y The vertical scroll position, in pixels.
+     */
+    scroll(x: number, y: number) {
+        const max = this.labels.length * this.cellSize - this.matrixSize;
+        this.offsetX = Math.max(0, Math.min(max, x));
+        this.offsetY = Math.max(0, Math.min(max, y));
+        const total = this.labels.length * this.cellSize;
+        this.viewport = total > 0 ? {
+            x: this.offsetX / total,
+            y: this.offsetY / total,
+            width: this.matrixSize / total,
+            height: this.matrixSize / total
+        } : { x: 0, y: 0, width: 1, height: 1 };
+        this.scheduleDraw();
+    }
+
+    /**
+     * Scrolls so a point of the matrix is at the center of the visible values.
+     * @param x The point horizontal position, as a fraction of the matrix width.
+     * @param y The point vertical position, as a fraction of the matrix height.
+     */
+    centerAt(x: number, y: number) {
+        const total = this.labels.length * this.cellSize;
+        this.scroll(x * total - this.matrixSize / 2, y * total - this.matrixSize / 2);
+    }
+
+    /**
+     * Zooms in twice and centers a point of the matrix.
+     * @param x The point horizontal position, as a fraction of the matrix width.
+     * @param y The point vertical position, as a fraction of the matrix height.
+     */
+    zoomAt(x: number, y: number) {
+        this.zoom(this.cellSize * 2);
+        this.centerAt(x, y);
+    }
+
+    /**
+     * Centers a label diagonal value, zooming in until the values are readable.
+     * @param index The label index.
+     */
+    showLabel(index: number) {
+        this.zoom(Math.max(this.cellSize, this.textCellSize));
+        const position = (index + 0.5) / this.labels.length;
+        this.centerAt(position, position);
+    }
+
+    /**
+     * Changes the cells size, keeping the value under a point at the same place.
+     * @param cellSize The new cells size, in pixels.
+     * @param x The point horizontal position in the values, in pixels.
+     * @param y The point vertical position in the values, in pixels.
+     */
+    zoom(cellSize: number, x = this.matrixSize / 2, y = this.matrixSize / 2) {
+        const size = Math.max(this.minCellSize, Math.min(this.maxCellSize, cellSize));
+        const ratio = size / this.cellSize;
+        this.cellSize = size;
+        this.scroll((this.offsetX + x) * ratio - x, (this.offsetY + y) * ratio - y);
+    }
+
+    /**
+     * Moves the keyboard cursor to a value, scrolled into view, and shows its tooltip.
+     */
+    private moveTo(cell: CanvasCell) {
+        this.keyboardCell = cell;
+        const region = this.visibleRegion;
+        const x = cell.column < region.firstColumn || cell.column >= region.lastColumn ?
+            (cell.column + 0.5) * this.cellSize - this.matrixSize / 2 : this.offsetX;
+        const y = cell.row < region.firstRow || cell.row >= region.lastRow ?
+            (cell.row + 0.5) * this.cellSize - this.matrixSize / 2 : this.offsetY;
+        this.scroll(x, y);
+        this.hovered = {
+            ...cell,
+            x: this.labelsSize + (cell.column + 0.5) * this.cellSize - this.offsetX,
+            y: (cell.row + 1) * this.cellSize - this.offsetY
+        };
+        this.cellHover.emit(cell);
+        this.announcement = this.cellLabel(cell.row, cell.column);
+    }
+
+    private leave() {
+        if (this.hovered) {
+            this.hovered = undefined;
+            this.cellLeave.emit();
+            this.scheduleDraw();
+        }
+    }
+
+    /**
+     * Gets the value at a canvas position.
+     * @returns The value, or undefined out of the values.
+     */
+    private getCell(x: number, y: number): CanvasCell | undefined {
+        const matrixX = x - this.labelsSize;
+        if (matrixX < 0 || y < 0 || matrixX >= this.matrixSize || y >= this.matrixSize) {
+            return undefined;
+        }
+        const row = Math.floor((this.offsetY + y) / this.cellSize);
+        const column = Math.floor((this.offsetX + matrixX) / this.cellSize);
+        return row < this.labels.length && column < this.labels.length ? { row, column } : undefined;
+    }
+
+    /**
+     * Draws the canvas on the next frame, at most once per frame.
+     * Drawing runs outside of Angular since it does not change anything bound in the templates.
+     */
+    private scheduleDraw() {
+        if (this.frame === undefined) {
+            this.zone.runOutsideAngular(() => {
+                this.frame = requestAnimationFrame(() => {
+                    this.frame = undefined;
+                    this.draw();
+                });
+            });
+        }
+    }
+
+    private draw() {
+        const canvas = this.canvas?.nativeElement;
+        const context = canvas?.getContext('2d');
+        if (!canvas || !context) {
+            return;
+        }
+        const ratio = window.devicePixelRatio || 1;
+        const size = this.size;
+        if (canvas.width !== Math.round(size * ratio)) {
+            canvas.width = Math.round(size * ratio);
+            canvas.height = Math.round(size * ratio);
+        }
+        context.setTransform(ratio, 0, 0, ratio, 0, 0);
+        context.clearRect(0, 0, size, size);
+
+        if (!this.themeColors) {
+            this.themeColors = {
+                highlight: this.themeService.getColor('highlight', canvas),
+                searchHighlight: this.themeService.getColor('searchHighlight', canvas),
+                text: this.themeService.getColor('text', canvas),
+                accent: this.themeService.getColor('accent', canvas)
+            };
+        }
+        const { highlight, searchHighlight, text, accent } = this.themeColors;
+
+        const region = this.visibleRegion;
+        const cellSize = this.cellSize;
+        const x = (column: number) => this.labelsSize + column * cellSize - this.offsetX;
+        const y = (row: number) => row * cellSize - this.offsetY;
+
+        context.save();
+        context.beginPath();
+        context.rect(this.labelsSize, 0, this.matrixSize, this.matrixSize);
+        context.clip();
+        context.textAlign = 'center';
+        context.textBaseline = 'middle';
+        context.font = `${Math.min(14, cellSize / 3)}px Arial, Helvetica, sans-serif`;
+        for (let row = region.firstRow; row <= region.lastRow; row++) {
+            for (let column = region.firstColumn; column <= region.lastColumn; column++) {
+                context.fillStyle = this.cellColor(row, column);
+                context.fillRect(x(column), y(row), cellSize, cellSize);
+                if (this.hovered && (this.hovered.row === row || this.hovered.column === column)) {
+                    context.fillStyle = highlight;
+                    context.fillRect(x(column), y(row), cellSize, cellSize);
+                }
+                if (this.focusedLabel === row || this.focusedLabel === column) {
+                    context.fillStyle = '#ffc1072e';
+                    context.fillRect(x(column), y(row), cellSize, cellSize);
+                }
+                if (this.highContrast && cellSize >= this.textCellSize / 2) {
+                    context.strokeStyle = text;
+                    context.lineWidth = 1;
+                    context.strokeRect(x(column) + 0.5, y(row) + 0.5, cellSize - 1, cellSize - 1);
+                }
+                if (cellSize >= this.textCellSize) {
+                    context.fillStyle = this.cellTextColor(row, column);
+                    context.fillText(this.cellText(row, column), x(column) + cellSize / 2, y(row) + cellSize / 2, cellSize - 4);
+                }
+            }
+        }
+        if (this.focusedLabel !== undefined) {
+            const total = this.labels.length * cellSize;
+            context.strokeStyle = searchHighlight;
+            context.lineWidth = 2;
+            context.strokeRect(x(0), y(this.focusedLabel), total, cellSize);
+            context.strokeRect(x(this.focusedLabel), y(0), cellSize, total);
+        }
+        if (this.keyboardCell) {
+            context.strokeStyle = this.highContrast ? text : accent;
+            context.lineWidth = 3;
+            context.strokeRect(x(this.keyboardCell.column) + 1.5, y(this.keyboardCell.row) + 1.5, cellSize - 3, cellSize - 3);
+        }
+        context.restore();
+
+        if (cellSize >= this.textCellSize / 2) {
+            this.drawLabels(context, region, x, y, text);
+        }
+    }
+
+    /**
+     * Draws the visible row labels at the left and column labels at the bottom, the hovered ones in bold.
+     */
+    private drawLabels(context: CanvasRenderingContext2D, region: CanvasRegion,
+        x: (column: number) => number, y: (row: number) => number, color: string) {
+        const cellSize = this.cellSize;
+        const font = (bold: boolean) => `${bold ? 'bold ' : ''}${Math.min(14, cellSize * 0.6)}px Arial, Helvetica, sans-serif`;
+        context.fillStyle = color;
+        context.textBaseline = 'middle';
+
+        context.save();
+        context.beginPath();
+        context.rect(0, 0, this.labelsSize, this.matrixSize);
+        context.clip();
+        context.textAlign = 'right';
+        for (let row = region.firstRow; row <= region.lastRow; row++) {
+            context.font = font(this.hovered?.row === row || this.focusedLabel === row);
+            context.fillText(this.labels[row], this.labelsSize - 10, y(row) + cellSize / 2, this.labelsSize - 14);
+        }
+        context.restore();
+
+        context.save();
+        context.beginPath();
+        context.rect(this.labelsSize, this.matrixSize, this.matrixSize, this.labelsSize);
+        context.clip();
+        context.textAlign = 'left';
+        for (let column = region.firstColumn; column <= region.lastColumn; column++) {
+            context.save();
+            context.translate(x(column) + cellSize / 2, this.matrixSize + 10);
+            context.rotate(Math.PI / 2);
+            context.font = font(this.hovered?.column === column || this.focusedLabel === column);
+            context.fillText(this.labels[column], 0, 0, this.labelsSize - 14);
+            context.restore();
+        }
+        context.restore();
+    }
+}
@@ -0,0 +1,53 @@
+import { AverageMethod, ConfusionMatrix } from "@fullexpression/confusion-matrix-stats";
+import { MetricsEnum } from "../metrics.configurations.model";
+import { ConfidenceIntervalService } from "./confidence-interval.service";
+import { resampleCounts } from "./confidence-interval.worker";
+import { MetricFormulaService } from "./metric-formula.service";
+import { ConfidenceIntervalMethod, ConfidenceIntervalOptions, MetricParameters } from "./metric.models";
+import { MetricService } from "./metric.service";
+
+describe("Confidence interval service test suite", () => {
+
+    const metricService = new MetricService(new MetricFormulaService());
+    const confidenceIntervalService = new ConfidenceIntervalService(metricService);
+    const confusionMatrix = new ConfusionMatrix({
+        labels: ['Happiness', 'Sadness'],
+        matrix: [[80, 20], [10, 30]]
+    });
+
+    it("Can calculate the Wilson interval.", () => {
+        const interval = confidenceIntervalService.wilson(8, 10, 0.95);
+        expect(interval.lower).toBeCloseTo(0.490, 3);
+        expect(interval.upper).toBeCloseTo(0.943, 3);
+    });
+
+    it("Can calculate the Clopper-Pearson interval.", () => {
+        const interval = confidenceIntervalService.clopperPearson(8, 10, 0.95);
+        expect(interval.lower).toBeCloseTo(0.444, 3);
+        expect(interval.upper).toBeCloseTo(0.975, 3);
+        expect(confidenceIntervalService.clopperPearson(0, 10, 0.95).lower).toBe(0);
+    });
+
+    it("Can resample keeping the samples number.", () => {
+        const counts = resampleCounts(confusionMatrix.matrix, 10);
+        expect(counts.length).toBe(10 * 2 * 4);
+        for (let offset = 0; offset < counts.length; offset += 4) {
+            expect(counts[offset] + counts[offset + 1] + counts[offset + 2] + counts[offset + 3]).toBe(140);
+        }
+    });
+
+    it("Can calculate a bootstrap interval around the metric.", async () => {
+        const interval = await confidenceIntervalService.calculate(confusionMatrix, MetricsEnum.BalancedAccuracy,
+            AverageMethod.Macro, undefined, new MetricParameters(), new ConfidenceIntervalOptions({ resamples: 500 }));
+        const value = metricService.calculate(confusionMatrix, MetricsEnum.BalancedAccuracy, AverageMethod.Macro);
+        expect(interval.method).toBe(ConfidenceIntervalMethod.Bootstrap);
+        expect(interval.lower).toBeLessThan(value);
+        expect(interval.upper).toBeGreaterThan(value);
+    });
+
+    it("Can fall back to the bootstrap when the metric is not a proportion.", async () => {
+        const interval = await confidenceIntervalService.calculate(confusionMatrix, MetricsEnum.F1Score, undefined, 'Happiness',
+            new MetricParameters(), new ConfidenceIntervalOptions({ method: ConfidenceIntervalMethod.Wilson, resamples: 100 }));
+        expect(interval.method).toBe(ConfidenceIntervalMethod.Bootstrap);
+    });
+});
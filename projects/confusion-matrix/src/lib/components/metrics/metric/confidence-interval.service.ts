@@ -0,0 +1,283 @@
+import { Injectable } from "@angular/core";
+import { AverageMethod, ConfusionMatrix } from "@fullexpression/confusion-matrix-stats";
+import { Metric, MetricsEnum } from "../metrics.configurations.model";
+import { resampleCounts } from "./confidence-interval.worker";
+import {
+    ConfidenceInterval, ConfidenceIntervalMethod, ConfidenceIntervalOptions, MetricParameters
+} from "./metric.models";
+import { MetricService } from "./metric.service";
+
+@Injectable()
+export class ConfidenceIntervalService {
+
+    constructor(private metricService: MetricService) { }
+
+    /**
+     * Calculates the confidence interval of a metric.
+     * The bootstrap resampling runs in a web worker, or in the main thread when web workers are not available.
+     * @param confusionMatrix The confusion matrix.
+     * @param metric The metric, built-in or custom.
+     * @param average How the labels values are averaged when no label is given.
+     * @param label The label to calculate the metric for.
+     * @param parameters Metric specific parameters.
+     * @param options The confidence interval method, level and resamples.
+     * @returns The confidence interval.
+     */
+    calculate(confusionMatrix: ConfusionMatrix, metric: Metric, average: AverageMethod | undefined, label: string | undefined,
+        parameters: MetricParameters, options: ConfidenceIntervalOptions): Promise<ConfidenceInterval> {
+        if (options.method !== ConfidenceIntervalMethod.Bootstrap) {
+            const proportion = this.getProportion(confusionMatrix, metric, average, label);
+            if (proportion) {
+                const [successes, trials] = proportion;
+                const interval = options.method === ConfidenceIntervalMethod.Wilson ?
+                    this.wilson(successes, trials, options.level) : this.clopperPearson(successes, trials, options.level);
+                return Promise.resolve({ ...interval, method: options.method });
+            }
+        }
+
+        const labels = confusionMatrix.labels;
+        return this.resample(confusionMatrix.matrix, options.resamples).then(counts => {
+            const values = new Array<number>();
+            for (let resample = 0; resample < options.resamples; resample++) {
+                const labelsCounts = labels.map((_: string, index: number) => {
+                    const offset = (resample * labels.length + index) * 4;
+                    return {
+                        truePositives: counts[offset],
+                        falsePositives: counts[offset + 1],
+                        falseNegatives: counts[offset + 2],
+                        trueNegatives: counts[offset + 3]
+                    };
+                });
+                const value = this.metricService.calculateFromCounts(labels, labelsCounts, metric, average, label, parameters);
+                if (!isNaN(value)) {
+                    values.push(value);
+                }
+            }
+            return {
+                ...this.getPercentileInterval(values, options.level),
+                method: ConfidenceIntervalMethod.Bootstrap
+            };
+        });
+    }
+
+    /**
+     * Wilson score interval of a proportion.
+     * @param successes The number of successes.
+     * @param trials The number of trials.
+     * @param level The confidence level, from 0 to 1.
+     * @returns The interval bounds.
+     */
+    wilson(successes: number, trials: number, level: number): { lower: number, upper: number } {
+        if (trials <= 0) {
+            return { lower: 0, upper: 1 };
+        }
+        const z = this.normalQuantile(1 - (1 - level) / 2);
+        const proportion = successes / trials;
+        const denominator = 1 + z * z / trials;
+        const center = (proportion + z * z / (2 * trials)) / denominator;
+        const margin = z / denominator * Math.sqrt(proportion * (1 - proportion) / trials + z * z / (4 * trials * trials));
+        return { lower: Math.max(center - margin, 0), upper: Math.min(center + margin, 1) };
+    }
+
+    /**
+     * Clopper-Pearson (exact) interval of a proportion.
+     * @param successes The number of successes.
+     * @param trials The number of trials.
+     * @param level The confidence level, from 0 to 1.
+     * @returns The interval bounds.
+     */
+    clopperPearson(successes: number, trials: number, level: number): { lower: number, upper: number } {
+        if (trials <= 0) {
+            return { lower: 0, upper: 1 };
+        }
+        const alpha = 1 - level;
+        return {
+            lower: successes <= 0 ? 0 : this.betaQuantile(alpha / 2, successes, trials - successes + 1),
+            upper: successes >= trials ? 1 : this.betaQuantile(1 - alpha / 2, successes + 1, trials - successes)
+        };
+    }
+
+    /**
+     * Gets the central interval holding a given share of the values.
+     * @param values The values.
+     * @param level The share of values, from 0 to 1.
+     * @returns The interval bounds.
+     */
+    getPercentileInterval(values: Array<number>, level: number): { lower: number, upper: number } {
+        const sorted = [...values].sort((a, b) => a - b);
+        return {
+            lower: this.percentile(sorted, (1 - level) / 2),
+            upper: this.percentile(sorted, 1 - (1 - level) / 2)
+        };
+    }
+
+    /**
+     * Gets the successes and trials of the metrics that are a proportion, for a label or micro averaged.
+     * @returns The successes and trials, or undefined if the metric is not a proportion.
+     */
+    private getProportion(confusionMatrix: ConfusionMatrix, metric: Metric, average: AverageMethod | undefined,
+        label: string | undefined): [number, number] | undefined {
+        if (!label && average !== AverageMethod.Micro) {
+            return undefined;
+        }
+        const counts = this.metricService.getCounts(confusionMatrix.matrix);
+        const index = label ? confusionMatrix.labels.indexOf(label) : -1;
+        if (label && index < 0) {
+            return undefined;
+        }
+        const { truePositives: tp, falsePositives: fp, falseNegatives: fn, trueNegatives: tn } =
+            label ? counts[index] : this.metricService.sumCounts(counts);
+        switch (metric) {
+            case MetricsEnum.Accuracy:
+                return [tp + tn, tp + fp + fn + tn];
+            case MetricsEnum.MissClassificationRate:
+                return [fp + fn, tp + fp + fn + tn];
+            case MetricsEnum.Precision:
+                return [tp, tp + fp];
+            case MetricsEnum.Recall:
+                return [tp, tp + fn];
+            case MetricsEnum.Specificity:
+                return [tn, tn + fp];
+            case MetricsEnum.NegativePredictiveValue:
+                return [tn, tn + fn];
+            case MetricsEnum.FalsePositiveRate:
+                return [fp, fp + tn];
+            case MetricsEnum.FalseNegativeRate:
+                return [fn, fn + tp];
+        }
+        return undefined;
+    }
+
+    /**
+     * Resamples the confusion matrix in a web worker, falling back to the main thread if the worker can not run.
+     */
+    private resample(matrix: Array<Array<number>>, resamples: number): Promise<Float64Array> {
+        let worker: Worker;
+        let url: string;
+        try {
+            const source = `const resampleCounts = (${resampleCounts.toString()});\n` +
+                'onmessage = event => postMessage(resampleCounts(event.data.matrix, event.data.resamples));';
+            url = URL.createObjectURL(new Blob([source], { type: 'application/javascript' }));
+            worker = new Worker(url);
+        } catch {
+            return Promise.resolve(resampleCounts(matrix, resamples));
+        }
+        return new Promise<Float64Array>(resolve => {
+            const terminate = () => {
+                worker.terminate();
+                URL.revokeObjectURL(url);
+            };
+            worker.onmessage = (event: MessageEvent<Float64Array>) => {
+                terminate();
+                resolve(event.data);
+            };
+            worker.onerror = () => {
+                terminate();
+                resolve(resampleCounts(matrix, resamples));
+            };
+            worker.postMessage({ matrix, resamples });
+        });
+    }
+
+    private percentile(sorted: Array<number>, position: number): number {
+        if (sorted.length === 0) {
+            return NaN;
+        }
+        const index = position * (sorted.length - 1);
+        const below = Math.floor(index);
+        const above = Math.min(below + 1, sorted.length - 1);
+        return sorted[below] + (sorted[above] - sorted[below]) * (index - below);
+    }
+
+    /**
+     * Inverse of the standard normal distribution (Acklam's approximation).
+     */
+    private normalQuantile(probability: number): number {
+        const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.3577518672690, -30.66479806614716,
+            2.506628277459239];
+        const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+        const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968,
+            2.938163982698783];
+        const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+        const low = 0.02425;
+        if (probability < low || probability > 1 - low) {
+            const tail = Math.sqrt(-2 * Math.log(probability < low ? probability : 1 - probability));
+            const value = (((((c[0] * tail + c[1]) * tail + c[2]) * tail + c[3]) * tail + c[4]) * tail + c[5]) /
+                ((((d[0] * tail + d[1]) * tail + d[2]) * tail + d[3]) * tail + 1);
+            return probability < low ? value : -value;
+        }
+        const q = probability - 0.5;
+        const r = q * q;
+        return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+            (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+    }
+
+    /**
+     * Inverse of the beta distribution, by bisection of its cumulative distribution.
+     */
+    private betaQuantile(probability: number, a: number, b: number): number {
+        let lower = 0;
+        let upper = 1;
+        for (let i = 0; i < 100; i++) {
+            const middle = (lower + upper) / 2;
+            if (this.regularizedBeta(middle, a, b) < probability) {
+                lower = middle;
+            } else {
+                upper = middle;
+            }
+        }
+        return (lower + upper) / 2;
+    }
+
+    /**
+     * Regularized incomplete beta function, by its continued fraction.
+     */
+    private regularizedBeta(x: number, a: number, b: number): number {
+        if (x <= 0) {
+            return 0;
+        }
+        if (x >= 1) {
+            return 1;
+        }
+        if (x > (a + 1) / (a + b + 2)) {
+            return 1 - this.regularizedBeta(1 - x, b, a);
+        }
+        const front = Math.exp(this.logGamma(a + b) - this.logGamma(a) - this.logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)) / a;
+        const tiny = 1e-30;
+        let c = 1;
+        let d = 1 - (a + b) * x / (a + 1);
+        d = 1 / (Math.abs(d) < tiny ? tiny : d);
+        let fraction = d;
+        for (let m = 1; m <= 300; m++) {
+            for (const step of [0, 1]) {
+                const numerator = step === 0 ?
+                    m * (b - m) * x / ((a + 2 * m - 1) * (a + 2 * m)) :
+                    -(a + m) * (a + b + m) * x / ((a + 2 * m) * (a + 2 * m + 1));
+                d = 1 + numerator * d;
+                d = 1 / (Math.abs(d) < tiny ? tiny : d);
+                c = 1 + numerator / c;
+                c = Math.abs(c) < tiny ? tiny : c;
+                fraction *= c * d;
+                if (step === 1 && Math.abs(c * d - 1) < 1e-12) {
+                    return front * fraction;
+                }
+            }
+        }
+        return front * fraction;
+    }
+
+    /**
+     * Logarithm of the gamma function (Lanczos approximation).
+     */
+    private logGamma(value: number): number {
+        const coefficients = [76.18009172947146, -86.50532032941677, 24.01409824083091,
+            -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+        let denominator = value;
+        const temporary = value + 5.5 - (value + 0.5) * Math.log(value + 5.5);
+        let series = 1.000000000190015;
+        for (const coefficient of coefficients) {
+            series += coefficient / ++denominator;
+        }
+        return -temporary + Math.log(2.5066282746310005 * series / value);
+    }
+}
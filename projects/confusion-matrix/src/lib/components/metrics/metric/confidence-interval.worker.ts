@@ -0,0 +1,86 @@
+/**
+ * Resamples a confusion matrix and gets the one-vs-rest counts of each resample.
+ * Each resample draws as many samples as the confusion matrix has (its values rounded sum),
+ * with the probability of each cell being its share of the confusion matrix.
+ *
+ * The function runs in a web worker built from its source, so it must not use anything outside of its body.
+ * @param matrix The confusion matrix values, rows are the actual labels and columns the predicted ones.
+ * @param resamples The number of resamples.
+ * @returns The counts of every resample and label, in the true positives, false positives, false negatives
+ * and true negatives order.
+ */
+export function resampleCounts(matrix: Array<Array<number>>, resamples: number): Float64Array {
+    const size = matrix.length;
+    const cells = new Array<number>();
+    for (let i = 0; i < size; i++) {
+        for (let j = 0; j < size; j++) {
+            cells.push(Math.max(matrix[i][j], 0));
+        }
+    }
+    const mass = cells.reduce((sum, value) => sum + value, 0);
+    const samples = Math.round(mass);
+
+    const gaussian = () => Math.sqrt(-2 * Math.log(1 - Math.random())) * Math.cos(2 * Math.PI * Math.random());
+    const binomial = (trials: number, probability: number): number => {
+        if (trials <= 0 || probability <= 0) {
+            return 0;
+        }
+        if (probability >= 1) {
+            return trials;
+        }
+        if (probability > 0.5) {
+            return trials - binomial(trials, 1 - probability);
+        }
+        if (trials < 50) {
+            let successes = 0;
+            for (let i = 0; i < trials; i++) {
+                successes += Math.random() < probability ? 1 : 0;
+            }
+            return successes;
+        }
+        const mean = trials * probability;
+        const variance = mean * (1 - probability);
+        if (variance >= 9) {
+            return Math.min(Math.max(Math.round(mean + Math.sqrt(variance) * gaussian()), 0), trials);
+        }
+        // Few successes expected: counts the geometric waiting times between successes.
+        const logFailure = Math.log(1 - probability);
+        let successes = 0;
+        let position = 0;
+        while (true) {
+            position += Math.ceil(Math.log(1 - Math.random()) / logFailure);
+            if (position > trials) {
+                return successes;
+            }
+            successes++;
+        }
+    };
+
+    const counts = new Float64Array(resamples * size * 4);
+    const resampled = new Array<number>(cells.length);
+    const actual = new Array<number>(size);
+    const predicted = new Array<number>(size);
+    for (let resample = 0; resample < resamples; resample++) {
+        let remainingSamples = samples;
+        let remainingMass = mass;
+        actual.fill(0);
+        predicted.fill(0);
+        for (let cell = 0; cell < cells.length; cell++) {
+            const value = remainingMass > 0 ? binomial(remainingSamples, cells[cell] / remainingMass) : 0;
+            resampled[cell] = value;
+            remainingSamples -= value;
+            remainingMass -= cells[cell];
+            actual[Math.floor(cell / size)] += value;
+            predicted[cell % size] += value;
+        }
+        for (let label = 0; label < size; label++) {
+            const offset = (resample * size + label) * 4;
+            const truePositives = resampled[label * size + label];
+            counts[offset] = truePositives;
+            counts[offset + 1] = predicted[label] - truePositives;
+            counts[offset + 2] = actual[label] - truePositives;
+            counts[offset + 3] = samples - actual[label] - predicted[label] + truePositives;
+        }
+    }
+    return counts;
+}
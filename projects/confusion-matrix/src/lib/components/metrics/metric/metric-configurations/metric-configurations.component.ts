@@ -1,8 +1,11 @@
 import { AfterViewInit, Component, EventEmitter, Input, Output } from "@angular/core";
 import { AverageMethod } from "@fullexpression/confusion-matrix-stats";
-import { MetricsEnum } from "../../metrics.configurations.model";
+import { Metric, MetricsEnum } from "../../metrics.configurations.model";
 import { CustomSelectValue } from "../../../html-basics/select/custom-select.models";
-import { MetricStyleConfiguration, MetricTag } from "../metric.models";
+import {
+    ConfidenceIntervalMethod, ConfidenceIntervalOptions, MetricParameters, MetricStyleConfiguration, MetricTag
+} from "../metric.models";
+import { MetricFormulaError } from "../metric-formula.service";
 import { MetricService } from "../metric.service";
 
 @Component({
@@ -70,17 +73,29 @@ export class MetricConfigurationsComponent {
 
 
     @Input()
-    set metric(metric: MetricsEnum) {
+    set metric(metric: Metric) {
         if (metric) {
-            this._metric = {
-                id: metric,
-                text: MetricsEnum[metric as keyof typeof MetricsEnum]
-            }
+            this._metric = this.metrics.find(value => value.text === metric);
         }
     }
 
     @Output()
-    metricChange = new EventEmitter<MetricsEnum>();
+    metricChange = new EventEmitter<Metric>();
+
+    @Input()
+    parameters = new MetricParameters();
+
+    @Output()
+    parametersChange = new EventEmitter<MetricParameters>();
+
+    /**
+     * How the confidence interval is calculated, undefined when it is not shown.
+     */
+    @Input()
+    confidenceInterval?: ConfidenceIntervalOptions;
+
+    @Output()
+    confidenceIntervalChange = new EventEmitter<ConfidenceIntervalOptions | undefined>();
 
     @Input()
     set average(average: AverageMethod) {
@@ -116,13 +131,30 @@ export class MetricConfigurationsComponent {
     _metric: CustomSelectValue | undefined;
     _average: CustomSelectValue | undefined;
 
+    intervalMethods: Array<CustomSelectValue> = Object.values(ConfidenceIntervalMethod)
+        .map(method => ({ id: method, text: method }));
+
+    get _intervalMethod(): CustomSelectValue | undefined {
+        return this.intervalMethods.find(method => method.id === this.confidenceInterval?.method);
+    }
+
+    get isBootstrap(): boolean {
+        return this.confidenceInterval?.method === ConfidenceIntervalMethod.Bootstrap;
+    }
+
+    customMetricName = '';
+    customMetricFormula = '';
+    customMetricError = '';
+
+    /**
+     * Whether the selected metric has a beta parameter.
+     */
+    get hasBeta(): boolean {
+        return this.metricService.hasBeta(this._metric?.text ?? '');
+    }
+
     constructor(private metricService: MetricService) {
-        for (let enumMember in MetricsEnum) {
-            this.metrics.push({
-                id: enumMember,
-                text: MetricsEnum[enumMember as keyof typeof MetricsEnum]
-            });
-        }
+        this.refreshMetrics();
 
 
         for (let averageMethod in AverageMethod) {
@@ -139,13 +171,33 @@ export class MetricConfigurationsComponent {
 
     metricSelectedChanged(value: CustomSelectValue | undefined) {
 
-        const metric = this.metricService.getMetricEnum(value?.text);
+        const metric = this.metricService.getMetric(value?.text);
         if (metric) {
-            this.metricChange.emit(metric as MetricsEnum);
+            this._metric = value;
+            this.metricChange.emit(metric);
         }
 
     }
 
+    /**
+     * Registers the custom metric typed and selects it.
+     */
+    addCustomMetric() {
+        try {
+            this.metricService.register({ name: this.customMetricName, formula: this.customMetricFormula });
+        } catch (error) {
+            if (error instanceof MetricFormulaError) {
+                this.customMetricError = error.message;
+                return;
+            }
+            throw error;
+        }
+        this.customMetricError = '';
+        this.refreshMetrics();
+        this.metric = this.customMetricName.trim();
+        this.metricChange.emit(this.customMetricName.trim());
+    }
+
     averageSelectedChanged(value: CustomSelectValue | undefined) {
         const average = AverageMethod[value?.id as keyof typeof AverageMethod];
         this.averageChange.emit(average);
@@ -181,6 +233,39 @@ export class MetricConfigurationsComponent {
     }
 
 
+    betaChanged(beta: number) {
+        if (beta > 0) {
+            this.parameters = new MetricParameters({ ...this.parameters, beta });
+            this.parametersChange.emit(this.parameters);
+        }
+    }
+
+    changeConfidenceInterval() {
+        this.confidenceInterval = this.confidenceInterval ? undefined : new ConfidenceIntervalOptions();
+        this.confidenceIntervalChange.emit(this.confidenceInterval);
+    }
+
+    intervalMethodChanged(value: CustomSelectValue | undefined) {
+        if (value) {
+            this.updateConfidenceInterval({ method: value.id as ConfidenceIntervalMethod });
+        }
+    }
+
+    /**
+     * @param level Confidence level, in percentage.
+     */
+    intervalLevelChanged(level: number) {
+        if (level > 0 && level < 100) {
+            this.updateConfidenceInterval({ level: level / 100 });
+        }
+    }
+
+    intervalResamplesChanged(resamples: number) {
+        if (resamples >= 1) {
+            this.updateConfidenceInterval({ resamples: Math.round(resamples) });
+        }
+    }
+
     roundChanged(round: number) {
         this.round = round;
         this.roundChange.emit(round);
@@ -194,5 +279,24 @@ export class MetricConfigurationsComponent {
 
     }
 
+    private refreshMetrics() {
+        this.metrics = new Array<CustomSelectValue>();
+        for (let enumMember in MetricsEnum) {
+            this.metrics.push({
+                id: enumMember,
+                text: MetricsEnum[enumMember as keyof typeof MetricsEnum]
+            });
+        }
+        for (const customMetric of this.metricService.getCustomMetrics()) {
+            this.metrics.push({
+                id: `custom-${customMetric.name}`,
+                text: customMetric.name
+            });
+        }
+    }
 
+    private updateConfidenceInterval(options: Partial<ConfidenceIntervalOptions>) {
+        this.confidenceInterval = new ConfidenceIntervalOptions({ ...this.confidenceInterval, ...options });
+        this.confidenceIntervalChange.emit(this.confidenceInterval);
+    }
 }
\ No newline at end of file
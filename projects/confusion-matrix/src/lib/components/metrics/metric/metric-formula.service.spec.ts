@@ -0,0 +1,39 @@
+import { MetricsEnum } from "../metrics.configurations.model";
+import { MetricFormulaError, MetricFormulaService } from "./metric-formula.service";
+
+describe("Metric formula service test suite", () => {
+
+    const metricFormulaService = new MetricFormulaService();
+    const scope = {
+        count: (count: string, label?: string) => label === 'Fear' ? 2 : 10,
+        metric: (metric: MetricsEnum, label?: string) => metric === MetricsEnum.Recall && label === 'Anger' ? 0.5 : 0.25
+    };
+
+    it("Can evaluate the operators with their precedence.", () => {
+        const formula = metricFormulaService.parse('1 + 2 * 3 ^ 2 - -4 / 2');
+        expect(metricFormulaService.evaluate(formula, scope)).toBe(21);
+    });
+
+    it("Can evaluate counts and metrics of a label.", () => {
+        const formula = metricFormulaService.parse(`2 * recall('Anger') + precision("Fear") + TP('Fear') / TP`);
+        expect(metricFormulaService.evaluate(formula, scope)).toBeCloseTo(1.45);
+    });
+
+    it("Can evaluate functions.", () => {
+        const formula = metricFormulaService.parse('max(1, sqrt(16), abs(-3)) + min(2, 5)');
+        expect(metricFormulaService.evaluate(formula, scope)).toBe(6);
+    });
+
+    it("Can reject invalid formulas.", () => {
+        expect(() => metricFormulaService.parse('')).toThrowError(MetricFormulaError);
+        expect(() => metricFormulaService.parse('recall(Anger)')).toThrowError(MetricFormulaError);
+        expect(() => metricFormulaService.parse('alert(1)')).toThrowError(MetricFormulaError, 'Unknown name "alert" at position 1.');
+        expect(() => metricFormulaService.parse('1 $ 2')).toThrowError(MetricFormulaError, 'Unexpected "$" at position 3.');
+    });
+
+    it("Can reject the object prototype names.", () => {
+        ['constructor', 'toString', '__proto__', 'hasOwnProperty'].forEach(name =>
+            expect(() => metricFormulaService.parse(`${name} + 1`))
+                .toThrowError(MetricFormulaError, `Unknown name "${name}" at position 1.`));
+    });
+});
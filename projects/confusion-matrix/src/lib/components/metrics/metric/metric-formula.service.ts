@@ -0,0 +1,264 @@
+import { Injectable } from "@angular/core";
+import { MetricsEnum } from "../metrics.configurations.model";
+import { MetricCounts, MetricFormulaNode, MetricFormulaScope } from "./metric.models";
+
+/**
+ * Error thrown when a custom metric formula is not valid.
+ */
+export class MetricFormulaError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MetricFormulaError';
+    }
+}
+
+interface MetricFormulaToken {
+    type: 'number' | 'identifier' | 'string' | 'operator';
+    text: string;
+    position: number;
+}
+
+/**
+ * Parses and evaluates the custom metrics formulas.
+ * Formulas are never run as code: they are parsed into a tree that can only reach the counts and the metrics.
+ */
+@Injectable()
+export class MetricFormulaService {
+
+    readonly counts: { [name: string]: keyof MetricCounts } = {
+        TP: 'truePositives',
+        FP: 'falsePositives',
+        FN: 'falseNegatives',
+        TN: 'trueNegatives'
+    };
+
+    readonly metrics: { [name: string]: MetricsEnum } = {
+        accuracy: MetricsEnum.Accuracy,
+        missClassificationRate: MetricsEnum.MissClassificationRate,
+        precision: MetricsEnum.Precision,
+        recall: MetricsEnum.Recall,
+        specificity: MetricsEnum.Specificity,
+        f1Score: MetricsEnum.F1Score,
+        fBetaScore: MetricsEnum.FBetaScore,
+        balancedAccuracy: MetricsEnum.BalancedAccuracy,
+        mcc: MetricsEnum.MatthewsCorrelationCoefficient,
+        kappa: MetricsEnum.CohenKappa,
+        npv: MetricsEnum.NegativePredictiveValue,
+        fpr: MetricsEnum.FalsePositiveRate,
+        fnr: MetricsEnum.FalseNegativeRate,
+        informedness: MetricsEnum.Informedness,
+        markedness: MetricsEnum.Markedness
+    };
+
+    private readonly functions = ['min', 'max', 'abs', 'sqrt', 'log'];
+
+    private tokens = new Array<MetricFormulaToken>();
+    private index = 0;
+
+    /**
+     * Parses a formula.
+     * @param formula The formula, e.g. `2 * recall('Anger') + precision('Fear')`.
+     * @returns The parsed formula.
+     * @throws MetricFormulaError when the formula is not valid.
+     */
+    parse(formula: string): MetricFormulaNode {
+        this.tokens = this.tokenize(formula);
+        this.index = 0;
+        if (this.tokens.length === 0) {
+            throw new MetricFormulaError('The formula is empty.');
+        }
+        const node = this.parseExpression();
+        if (this.index < this.tokens.length) {
+            throw this.unexpected(this.tokens[this.index]);
+        }
+        return node;
+    }
+
+    /**
+     * Evaluates a parsed formula.
+     * @param node The parsed formula.
+     * @param scope The counts and metrics values.
+     * @returns The formula value.
+     */
+    evaluate(node: MetricFormulaNode, scope: MetricFormulaScope): number {
+        switch (node.type) {
+            case 'number':
+                return node.value;
+            case 'count':
+                return scope.count(node.count, node.label);
+            case 'metric':
+                return scope.metric(node.metric, node.label);
+            case 'negate':
+                return -this.evaluate(node.operand, scope);
+            case 'binary':
+                return this.evaluateBinary(node.operator, this.evaluate(node.left, scope), this.evaluate(node.right, scope));
+            case 'function':
+                return this.evaluateFunction(node.name, node.args.map(arg => this.evaluate(arg, scope)));
+        }
+        return NaN;
+    }
+
+    private evaluateBinary(operator: '+' | '-' | '*' | '/' | '^', left: number, right: number): number {
+        switch (operator) {
+            case '+': return left + right;
+            case '-': return left - right;
+            case '*': return left * right;
+            case '/': return left / right;
+            case '^': return Math.pow(left, right);
+        }
+    }
+
+    private evaluateFunction(name: 'min' | 'max' | 'abs' | 'sqrt' | 'log', args: Array<number>): number {
+        switch (name) {
+            case 'min': return Math.min(...args);
+            case 'max': return Math.max(...args);
+            case 'abs': return Math.abs(args[0]);
+            case 'sqrt': return Math.sqrt(args[0]);
+            case 'log': return Math.log(args[0]);
+        }
+    }
+
+    private tokenize(formula: string): Array<MetricFormulaToken> {
+        const tokens = new Array<MetricFormulaToken>();
+        const pattern = /\s*(?:(\d+(?:\.\d+)?|\.\d+)|([A-Za-z_]\w*)|'([^']*)'|"([^"]*)"|([-+*/^(),]))/y;
+        let position = 0;
+        while (position < formula.length) {
+            if (!formula.slice(position).trim()) {
+                break;
+            }
+            pattern.lastIndex = position;
+            const match = pattern.exec(formula);
+            if (!match) {
+                const unexpected = position + formula.slice(position).search(/\S/);
+                throw new MetricFormulaError(`Unexpected "${formula[unexpected]}" at position ${unexpected + 1}.`);
+            }
+            const start = position + match[0].search(/\S/);
+            if (match[1] !== undefined) {
+                tokens.push({ type: 'number', text: match[1], position: start });
+            } else if (match[2] !== undefined) {
+                tokens.push({ type: 'identifier', text: match[2], position: start });
+            } else if (match[3] !== undefined || match[4] !== undefined) {
+                tokens.push({ type: 'string', text: match[3] ?? match[4], position: start });
+            } else {
+                tokens.push({ type: 'operator', text: match[5], position: start });
+            }
+            position = pattern.lastIndex;
+        }
+        return tokens;
+    }
+
+    private parseExpression(): MetricFormulaNode {
+        let node = this.parseTerm();
+        while (this.peek('+') || this.peek('-')) {
+            const operator = this.tokens[this.index++].text as '+' | '-';
+            node = { type: 'binary', operator, left: node, right: this.parseTerm() };
+        }
+        return node;
+    }
+
+    private parseTerm(): MetricFormulaNode {
+        let node = this.parseUnary();
+        while (this.peek('*') || this.peek('/')) {
+            const operator = this.tokens[this.index++].text as '*' | '/';
+            node = { type: 'binary', operator, left: node, right: this.parseUnary() };
+        }
+        return node;
+    }
+
+    private parseUnary(): MetricFormulaNode {
+        if (this.peek('-')) {
+            this.index++;
+            return { type: 'negate', operand: this.parseUnary() };
+        }
+        if (this.peek('+')) {
+            this.index++;
+            return this.parseUnary();
+        }
+        const node = this.parsePrimary();
+        if (this.peek('^')) {
+            this.index++;
+            return { type: 'binary', operator: '^', left: node, right: this.parseUnary() };
+        }
+        return node;
+    }
+
+    private parsePrimary(): MetricFormulaNode {
+        const token = this.next();
+        if (token.type === 'number') {
+            return { type: 'number', value: Number(token.text) };
+        }
+        if (token.type === 'operator' && token.text === '(') {
+            const node = this.parseExpression();
+            this.expect(')');
+            return node;
+        }
+        if (token.type !== 'identifier') {
+            throw this.unexpected(token);
+        }
+
+        // Own names only, so that e.g. "constructor" does not reach the object prototype.
+        const count = Object.prototype.hasOwnProperty.call(this.counts, token.text) ? this.counts[token.text] : undefined;
+        const metric = Object.prototype.hasOwnProperty.call(this.metrics, token.text) ? this.metrics[token.text] : undefined;
+        if (count) {
+            return { type: 'count', count, label: this.parseLabel() };
+        }
+        if (metric) {
+            return { type: 'metric', metric, label: this.parseLabel() };
+        }
+        if (this.functions.includes(token.text)) {
+            const name = token.text as 'min' | 'max' | 'abs' | 'sqrt' | 'log';
+            this.expect('(');
+            const args = [this.parseExpression()];
+            while (this.peek(',')) {
+                this.index++;
+                args.push(this.parseExpression());
+            }
+            this.expect(')');
+            if (name !== 'min' && name !== 'max' && args.length !== 1) {
+                throw new MetricFormulaError(`${name} takes one argument.`);
+            }
+            return { type: 'function', name, args };
+        }
+        throw new MetricFormulaError(`Unknown name "${token.text}" at position ${token.position + 1}.`);
+    }
+
+    /**
+     * Parses the optional label of a count or a metric, e.g. `('Anger')`.
+     */
+    private parseLabel(): string | undefined {
+        if (!this.peek('(')) {
+            return undefined;
+        }
+        this.index++;
+        const token = this.next();
+        if (token.type !== 'string') {
+            throw new MetricFormulaError(`Expected a quoted label at position ${token.position + 1}.`);
+        }
+        this.expect(')');
+        return token.text;
+    }
+
+    private peek(operator: string): boolean {
+        const token = this.tokens[this.index];
+        return token?.type === 'operator' && token.text === operator;
+    }
+
+    private next(): MetricFormulaToken {
+        const token = this.tokens[this.index++];
+        if (!token) {
+            throw new MetricFormulaError('Unexpected end of the formula.');
+        }
+        return token;
+    }
+
+    private expect(operator: string) {
+        const token = this.next();
+        if (token.type !== 'operator' || token.text !== operator) {
+            throw new MetricFormulaError(`Expected "${operator}" at position ${token.position + 1}.`);
+        }
+    }
+
+    private unexpected(token: MetricFormulaToken): MetricFormulaError {
+        return new MetricFormulaError(`Unexpected "${token.text}" at position ${token.position + 1}.`);
+    }
+}
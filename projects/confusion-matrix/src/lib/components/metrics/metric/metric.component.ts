@@ -1,11 +1,16 @@
 import { DecimalPipe } from "@angular/common";
-import { Component, EventEmitter, Input, Output } from "@angular/core";
+import { Component, DoCheck, ElementRef, EventEmitter, Input, Output } from "@angular/core";
 import { AverageMethod, ConfusionMatrix } from "@fullexpression/confusion-matrix-stats";
+import { ThemeColors, ThemeService } from "../../../services/theme.service";
 import { UtilService } from "../../../services/util.service";
+import { WorkspaceMetric } from "../../../services/workspace.service";
 import { DialogService } from "../../dialogs/dialog.service";
-import { MetricsEnum } from "../metrics.configurations.model";
+import { Metric, MetricsEnum } from "../metrics.configurations.model";
 import { MetricConfigurationsComponent } from "./metric-configurations/metric-configurations.component";
-import { MetricStyleConfiguration, MetricTag } from "./metric.models";
+import { ConfidenceIntervalService } from "./confidence-interval.service";
+import {
+    ConfidenceInterval, ConfidenceIntervalOptions, MetricParameters, MetricStyleConfiguration, MetricTag
+} from "./metric.models";
 import { MetricService } from "./metric.service";
 
 @Component({
@@ -13,13 +18,19 @@ import { MetricService } from "./metric.service";
     templateUrl: './metric.component.html',
     styleUrls: ['./metric.component.scss']
 })
-export class MetricComponent {
+export class MetricComponent implements DoCheck {
 
     @Input()
     confusionMatrix = new ConfusionMatrix();
 
+    /**
+     * Confusion matrix compared with the confusion matrix, the metric delta is shown when defined.
+     */
     @Input()
-    metric: MetricsEnum = MetricsEnum.F1Score;
+    comparedConfusionMatrix?: ConfusionMatrix;
+
+    @Input()
+    metric: Metric = MetricsEnum.F1Score;
 
     @Input()
     averageMethod = AverageMethod.Weighted;
@@ -27,6 +38,18 @@ export class MetricComponent {
     @Input()
     label?: string = undefined;
 
+    /**
+     * Metric specific parameters, e.g. the F-beta score beta.
+     */
+    @Input()
+    parameters = new MetricParameters();
+
+    /**
+     * How the confidence interval shown with the value is calculated, no interval is shown when not defined.
+     */
+    @Input()
+    confidenceInterval?: ConfidenceIntervalOptions;
+
     @Input() round?: number;
 
     @Input()
@@ -35,24 +58,59 @@ export class MetricComponent {
     @Output()
     remove = new EventEmitter<void>();
 
+    /**
+     * Emits the metric settings each time they are edited in the configuration dialog.
+     */
+    @Output()
+    configurationChange = new EventEmitter<WorkspaceMetric>();
+
     configurationsVisible = false;
 
+    /**
+     * Confidence interval of the value, undefined while being calculated.
+     */
+    interval?: ConfidenceInterval;
+
+    /**
+     * Inputs the confidence interval was calculated with, compared by reference.
+     */
+    private intervalInputs = new Array<any>();
+
+    /**
+     * The theme tags colors, read once since the tags are rebuilt on each change detection.
+     * They are hexadecimal colors, so they can be edited with the color pickers.
+     */
+    private tagColors: Pick<ThemeColors, 'metricTag' | 'averageTag' | 'labelTag' | 'tagText'> | undefined;
+
     get value(): number {
         return this.metricService.calculate(
             this.confusionMatrix,
             this.metric,
             this.averageMethod,
-            this.label
+            this.label,
+            this.parameters
         )
     };
 
+    /**
+     * Difference between the metric value and the compared confusion matrix one.
+     * Undefined when there is nothing to compare, or the compared confusion matrix does not have the metric label.
+     */
+    get delta(): number | undefined {
+        const compared = this.comparedConfusionMatrix;
+        if (!compared || (this.label && !compared.labels.includes(this.label))) {
+            return undefined;
+        }
+        return this.value - this.metricService.calculate(compared, this.metric, this.averageMethod, this.label, this.parameters);
+    }
+
 
     get metricsTags(): Array<MetricTag> {
         const labels = [this.metricLabel, this.averageLabel];
         if (this.label) {
             labels.push(new MetricTag({
-                backgroundColor: '#3f51b5',
-                fontColor: 'white',
+                backgroundColor: this.getTagColors().labelTag,
+                fontColor: this.getTagColors().tagText,
                 text: this.label
             }));
         }
@@ -61,16 +119,16 @@ export class MetricComponent {
 
     private get metricLabel(): MetricTag {
         return new MetricTag({
-            backgroundColor: '#ff9800',
-            fontColor: 'white',
+            backgroundColor: this.getTagColors().metricTag,
+            fontColor: this.getTagColors().tagText,
             text: this.getMetricsText()
         });
     }
 
     private get averageLabel(): MetricTag {
         return new MetricTag({
-            backgroundColor: '#2196f3',
-            fontColor: 'white',
+            backgroundColor: this.getTagColors().averageTag,
+            fontColor: this.getTagColors().tagText,
             text: this.getAverageText(this.averageMethod)
         });
     }
@@ -78,7 +136,14 @@ export class MetricComponent {
     constructor(private metricService: MetricService,
         private decimalPipe: DecimalPipe,
         private utilService: UtilService,
-        private dialogService: DialogService) { }
+        private dialogService: DialogService,
+        private confidenceIntervalService: ConfidenceIntervalService,
+        private themeService: ThemeService,
+        private host: ElementRef) { }
+
+    ngDoCheck(): void {
+        this.refreshConfidenceInterval();
+    }
 
 
     getBorderRadiusStyle(): string {
@@ -90,9 +155,9 @@ export class MetricComponent {
         return '0px';
     }
 
-    metricChanged(event: MetricsEnum) {
+    metricChanged(event: Metric) {
         this.metric = event;
-        this.metricLabel.text = event;
+        this.metricLabel.text = this.getMetricsText();
     }
 
     averageChanged(event: AverageMethod) {
@@ -112,21 +177,52 @@ export class MetricComponent {
     }
 
     getMetricsText(): string {
-        return MetricsEnum[this.metric as keyof typeof MetricsEnum];
+        if (this.metricService.hasBeta(this.metric)) {
+            return `F${this.parameters.beta}Score`;
+        }
+        return this.metric;
     }
 
     getValue(): string {
-        let roundString = '';
-        if (this.round) {
-            roundString = `1.0-${this.round}`;
-        } else {
-            roundString = `1.0-3`;
+        const value = this.format(this.value);
+        if (this.interval) {
+            return `${value} [${this.format(this.interval.lower)}, ${this.format(this.interval.upper)}]`;
         }
-        const value = this.decimalPipe.transform(this.value, roundString);
-        if (value) {
-            return value;
-        } else {
-            return this.value.toString();
+        return value;
+    }
+
+    getIntervalTitle(): string {
+        if (!this.interval || !this.confidenceInterval) {
+            return '';
+        }
+        return `${this.confidenceInterval.level * 100}% confidence interval (${this.interval.method})`;
+    }
+
+    getDeltaText(): string {
+        const delta = this.delta ?? 0;
+        const value = this.decimalPipe.transform(delta, `1.0-${this.round || 3}`) ?? delta.toString();
+        return delta > 0 ? `+${value}` : value;
+    }
+
+    /**
+     * Checks if the metric is better than the compared confusion matrix one.
+     */
+    isImprovement(): boolean {
+        const delta = this.delta ?? 0;
+        return this.metricService.isLowerBetter(this.metric) ? delta < 0 : delta > 0;
+    }
+
+    isRegression(): boolean {
+        return this.delta !== 0 && !this.isImprovement();
+    }
+
+    /**
+     * Opens the configuration with Enter or Space when the metric itself is focused, as a button.
+     */
+    configurationKeyDown(event: KeyboardEvent) {
+        if (event.target === event.currentTarget && (event.key === 'Enter' || event.key === ' ')) {
+            event.preventDefault();
+            this.openConfiguration();
         }
     }
 
@@ -140,35 +236,117 @@ export class MetricComponent {
         instance.metricsTags = this.metricsTags;
 
         instance.style = this.style;
-        instance.styleChange.subscribe((value: MetricStyleConfiguration) => this.style = value);
+        instance.styleChange.subscribe((value: MetricStyleConfiguration) => {
+            this.style = value;
+            this.emitConfiguration();
+        });
 
         instance.round = this.round;
-        instance.roundChange.subscribe((value: number) => this.round = value);
+        instance.roundChange.subscribe((value: number) => {
+            this.round = value;
+            this.emitConfiguration();
+        });
 
         instance.metric = this.metric;
 
-        instance.metricChange.subscribe((value: MetricsEnum) => {
+        instance.metricChange.subscribe((value: Metric) => {
             this.metric = value;
-            this.metricsTags[0].text = this.metric;
+            this.metricsTags[0].text = this.getMetricsText();
+            this.emitConfiguration();
+        });
+
+        instance.parameters = this.parameters;
+        instance.parametersChange.subscribe((value: MetricParameters) => {
+            this.parameters = value;
+            this.metricsTags[0].text = this.getMetricsText();
+            this.refreshConfidenceInterval(true);
+            this.emitConfiguration();
         });
 
         instance.average = this.averageMethod;
         instance.averageChange.subscribe((value: AverageMethod) => {
             this.averageMethod = value;
             this.metricsTags[1].text = this.getAverageText(this.averageMethod);
+            this.emitConfiguration();
+        });
+
+        instance.confidenceInterval = this.confidenceInterval;
+        instance.confidenceIntervalChange.subscribe((value: ConfidenceIntervalOptions | undefined) => {
+            this.confidenceInterval = value;
+            this.refreshConfidenceInterval(true);
+            this.emitConfiguration();
         });
 
         instance.labels = this.confusionMatrix.labels;
 
         instance.label = this.label;
-        instance.labelChange.subscribe((value: string) => this.label = value);
+        instance.labelChange.subscribe((value: string) => {
+            this.label = value;
+            this.emitConfiguration();
+        });
 
         configuration.changeDetectorRef.detectChanges();
-        this.dialogService.show(configuration);
+        this.dialogService.show(configuration, this.host.nativeElement);
     }
 
     removeMetric() {
         console.log('asdasdasd');
         this.remove.emit();
     }
+
+    private getTagColors(): Pick<ThemeColors, 'metricTag' | 'averageTag' | 'labelTag' | 'tagText'> {
+        if (!this.tagColors) {
+            this.tagColors = {
+                metricTag: this.themeService.getColor('metricTag', this.host.nativeElement),
+                averageTag: this.themeService.getColor('averageTag', this.host.nativeElement),
+                labelTag: this.themeService.getColor('labelTag', this.host.nativeElement),
+                tagText: this.themeService.getColor('tagText', this.host.nativeElement)
+            };
+        }
+        return this.tagColors;
+    }
+
+    private emitConfiguration() {
+        this.configurationChange.emit({
+            metric: this.metric,
+            averageMethod: this.averageMethod,
+            label: this.label,
+            round: this.round,
+            style: this.style,
+            parameters: this.parameters,
+            confidenceInterval: this.confidenceInterval
+        });
+    }
+
+    /**
+     * Calculates the confidence interval again when any of its inputs changed.
+     * Inputs are compared by reference, so checking them on each change detection is cheap even for large matrices.
+     * @param force True when an input was changed in place, e.g. the confidence interval options.
+     */
+    private refreshConfidenceInterval(force = false) {
+        if (!this.confidenceInterval) {
+            this.interval = undefined;
+            this.intervalInputs = [];
+            return;
+        }
+        const inputs = [this.confusionMatrix, this.confusionMatrix.matrix, this.confusionMatrix.labels, this.metric,
+            this.averageMethod, this.label, this.parameters, this.confidenceInterval];
+        if (!force && inputs.length === this.intervalInputs.length &&
+            inputs.every((input, index) => input === this.intervalInputs[index])) {
+            return;
+        }
+        this.intervalInputs = inputs;
+        this.interval = undefined;
+        this.confidenceIntervalService.calculate(this.confusionMatrix, this.metric, this.averageMethod, this.label,
+            this.parameters, this.confidenceInterval).then(interval => {
+                if (this.intervalInputs === inputs) {
+                    this.interval = interval;
+                }
+            });
+    }
+
+    private format(value: number): string {
+        const roundString = this.round ? `1.0-${this.round}` : `1.0-3`;
+        return this.decimalPipe.transform(value, roundString) ?? value.toString();
+    }
 }
\ No newline at end of file
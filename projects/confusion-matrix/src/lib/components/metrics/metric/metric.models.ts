@@ -1,3 +1,5 @@
+import { MetricsEnum } from "../metrics.configurations.model";
+
 export class MetricStyleConfiguration {
     fontColor?= 'inherit';
     backgroundColor?= 'transparent';
@@ -28,4 +30,109 @@ export class MetricTag {
             this.backgroundColor = metricLabel.backgroundColor;
         }
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Metric specific parameters.
+ */
+export class MetricParameters {
+    /**
+     * Weight of the recall in the F-beta score: the recall is beta times as important as the precision.
+     */
+    beta = 1;
+
+    constructor(parameters?: Partial<MetricParameters>) {
+        Object.assign(this, parameters);
+    }
+}
+
+/**
+ * One-vs-rest counts of a label: the label is the positive class and all the others the negative one.
+ */
+export interface MetricCounts {
+    truePositives: number;
+    falsePositives: number;
+    falseNegatives: number;
+    trueNegatives: number;
+}
+
+/**
+ * Metric defined by the user with a formula.
+ * The formula can use the counts TP, FP, FN and TN, the built-in metrics as functions (e.g. recall, precision, mcc),
+ * numbers, + - * / ^, parentheses and the min, max, abs, sqrt and log functions.
+ * Counts and metrics refer to the metric label, or to all the labels when there is none,
+ * unless they are given a label: `2 * recall('Anger') + precision('Fear')`, `TP('Fear') / (TP('Fear') + FN('Fear'))`.
+ */
+export interface CustomMetric {
+    name: string;
+    formula: string;
+
+    /**
+     * Whether lower values are better, e.g. for error rates.
+     */
+    lowerIsBetter?: boolean;
+}
+
+/**
+ * Parsed custom metric formula.
+ */
+export type MetricFormulaNode =
+    { type: 'number', value: number } |
+    { type: 'count', count: keyof MetricCounts, label?: string } |
+    { type: 'metric', metric: MetricsEnum, label?: string } |
+    { type: 'negate', operand: MetricFormulaNode } |
+    { type: 'binary', operator: '+' | '-' | '*' | '/' | '^', left: MetricFormulaNode, right: MetricFormulaNode } |
+    { type: 'function', name: 'min' | 'max' | 'abs' | 'sqrt' | 'log', args: Array<MetricFormulaNode> };
+
+/**
+ * Values a formula is evaluated with.
+ */
+export interface MetricFormulaScope {
+    count(count: keyof MetricCounts, label?: string): number;
+    metric(metric: MetricsEnum, label?: string): number;
+}
+
+export enum ConfidenceIntervalMethod {
+    /**
+     * Percentiles of the metric over confusion matrices resampled from the original one. Works for every metric.
+     */
+    Bootstrap = 'Bootstrap',
+
+    /**
+     * Wilson score interval, for the metrics that are a proportion of a label (or micro averaged) counts.
+     */
+    Wilson = 'Wilson',
+
+    /**
+     * Exact binomial interval, for the metrics that are a proportion of a label (or micro averaged) counts.
+     */
+    ClopperPearson = 'Clopper-Pearson'
+}
+
+export class ConfidenceIntervalOptions {
+    method = ConfidenceIntervalMethod.Bootstrap;
+
+    /**
+     * Confidence level, from 0 to 1.
+     */
+    level = 0.95;
+
+    /**
+     * Number of resampled confusion matrices used by the bootstrap.
+     */
+    resamples = 1000;
+
+    constructor(options?: Partial<ConfidenceIntervalOptions>) {
+        Object.assign(this, options);
+    }
+}
+
+export interface ConfidenceInterval {
+    lower: number;
+    upper: number;
+
+    /**
+     * Method actually used: the bootstrap is used when the method asked does not apply to the metric.
+     */
+    method: ConfidenceIntervalMethod;
+}
@@ -0,0 +1,72 @@
+import { AverageMethod, ConfusionMatrix } from "@fullexpression/confusion-matrix-stats";
+import { MetricsEnum } from "../metrics.configurations.model";
+import { MetricFormulaError, MetricFormulaService } from "./metric-formula.service";
+import { MetricParameters } from "./metric.models";
+import { MetricService } from "./metric.service";
+
+describe("Metric service test suite", () => {
+
+    const metricService = new MetricService(new MetricFormulaService());
+    const confusionMatrix = new ConfusionMatrix({
+        labels: ['Happiness', 'Sadness'],
+        matrix: [[8, 2], [1, 3]]
+    });
+
+    it("Can calculate the one-vs-rest counts.", () => {
+        const counts = metricService.getCounts(confusionMatrix.matrix);
+        expect(counts[0]).toEqual({ truePositives: 8, falsePositives: 1, falseNegatives: 2, trueNegatives: 3 });
+        expect(counts[1]).toEqual({ truePositives: 3, falsePositives: 2, falseNegatives: 1, trueNegatives: 8 });
+    });
+
+    it("Can calculate the Matthews correlation coefficient and Cohen kappa.", () => {
+        expect(metricService.calculate(confusionMatrix, MetricsEnum.MatthewsCorrelationCoefficient))
+            .toBeCloseTo(22 / Math.sqrt(1800));
+        expect(metricService.calculate(confusionMatrix, MetricsEnum.CohenKappa)).toBeCloseTo(44 / 86);
+    });
+
+    it("Can calculate the F-beta score with a given beta.", () => {
+        const parameters = new MetricParameters({ beta: 2 });
+        const precision = 8 / 9;
+        const recall = 0.8;
+        expect(metricService.calculate(confusionMatrix, MetricsEnum.FBetaScore, undefined, 'Happiness', parameters))
+            .toBeCloseTo(5 * precision * recall / (4 * precision + recall));
+    });
+
+    it("Can average the labels values.", () => {
+        expect(metricService.calculate(confusionMatrix, MetricsEnum.FalsePositiveRate, AverageMethod.Macro))
+            .toBeCloseTo((1 / 4 + 2 / 10) / 2);
+        expect(metricService.calculate(confusionMatrix, MetricsEnum.FalsePositiveRate, AverageMethod.Micro))
+            .toBeCloseTo(3 / 14);
+    });
+
+    it("Can calculate the balanced accuracy as the mean recall.", () => {
+        // Reference values from scikit-learn balanced_accuracy_score.
+        expect(metricService.calculate(confusionMatrix, MetricsEnum.BalancedAccuracy, AverageMethod.Weighted)).toBeCloseTo(0.775);
+        const multiclass = new ConfusionMatrix({
+            labels: ['Happiness', 'Sadness', 'Anger'],
+            matrix: [[5, 1, 0], [2, 7, 1], [0, 3, 4]]
+        });
+        expect(metricService.calculate(multiclass, MetricsEnum.BalancedAccuracy, AverageMethod.Micro)).toBeCloseTo(0.701587, 5);
+        const unseen = new ConfusionMatrix({ labels: ['Happiness', 'Sadness'], matrix: [[2, 1], [0, 0]] });
+        expect(metricService.calculate(unseen, MetricsEnum.BalancedAccuracy, AverageMethod.Macro)).toBeCloseTo(2 / 3);
+        expect(metricService.calculate(confusionMatrix, MetricsEnum.BalancedAccuracy, undefined, 'Happiness'))
+            .toBeCloseTo((0.8 + 0.75) / 2);
+    });
+
+    it("Can get the metric from its text.", () => {
+        expect(metricService.getMetricEnum('Negative Predictive Value')).toBe(MetricsEnum.NegativePredictiveValue);
+        expect(metricService.getMetricEnum('Unknown')).toBeNull();
+    });
+
+    it("Can calculate a custom metric.", () => {
+        metricService.register({ name: 'Happiness Youden', formula: "TP / (TP + FN) + TN('Happiness') / (TN('Happiness') + FP) - 1" });
+        expect(metricService.calculate(confusionMatrix, 'Happiness Youden', undefined, 'Happiness')).toBeCloseTo(0.8 + 0.75 - 1);
+        expect(metricService.getMetric('Happiness Youden')).toBe('Happiness Youden');
+        metricService.unregister('Happiness Youden');
+        expect(metricService.getMetric('Happiness Youden')).toBeNull();
+    });
+
+    it("Can not replace a built-in metric.", () => {
+        expect(() => metricService.register({ name: 'Recall', formula: '1' })).toThrowError(MetricFormulaError);
+    });
+});
@@ -1,10 +1,65 @@
 import { Injectable } from "@angular/core";
 import { AverageMethod, ConfusionMatrix } from "@fullexpression/confusion-matrix-stats";
-import { MetricsEnum } from "../metrics.configurations.model";
+import { Metric, MetricsEnum } from "../metrics.configurations.model";
+import { MetricFormulaError, MetricFormulaService } from "./metric-formula.service";
+import { CustomMetric, MetricCounts, MetricFormulaNode, MetricParameters } from "./metric.models";
 
 @Injectable()
 export class MetricService {
-    calculate(confusionMatrix: ConfusionMatrix, metric: MetricsEnum, average?: AverageMethod, label?: string): number {
+
+    /**
+     * Custom metrics registered, with their parsed formula, by name.
+     */
+    private customMetrics = new Map<string, { metric: CustomMetric, formula: MetricFormulaNode }>();
+
+    constructor(private metricFormulaService: MetricFormulaService) { }
+
+    /**
+     * Registers a custom metric, replacing the custom metric with the same name if any.
+     * It can then be used as the built-in ones.
+     * @param metric The custom metric.
+     * @throws MetricFormulaError when the formula is not valid or the name is a built-in metric.
+     */
+    register(metric: CustomMetric): void {
+        const name = metric.name?.trim();
+        if (!name) {
+            throw new MetricFormulaError('The metric must have a name.');
+        }
+        if (this.getMetricEnum(name)) {
+            throw new MetricFormulaError(`${name} is a built-in metric.`);
+        }
+        const formula = this.metricFormulaService.parse(metric.formula);
+        this.customMetrics.set(name, { metric: { ...metric, name }, formula });
+    }
+
+    unregister(name: string): void {
+        this.customMetrics.delete(name);
+    }
+
+    getCustomMetrics(): Array<CustomMetric> {
+        return Array.from(this.customMetrics.values()).map(customMetric => customMetric.metric);
+    }
+
+    /**
+     * Calculates a metric of the confusion matrix.
+     * The metrics not supported by the confusion matrix are calculated from the one-vs-rest counts of each label,
+     * and averaged as the others: macro is the mean of the labels values, weighted is weighted by the labels support,
+     * and micro is calculated from the counts summed over all labels.
+     * Without a label, the Matthews correlation coefficient and Cohen kappa use their multiclass definitions.
+     * @param confusionMatrix The confusion matrix.
+     * @param metric The metric, built-in or custom.
+     * @param average How the labels values are averaged when no label is given (weighted when not defined).
+     * @param label The label to calculate the metric for.
+     * @param parameters Metric specific parameters, e.g. the F-beta score beta.
+     * @returns The metric value.
+     */
+    calculate(confusionMatrix: ConfusionMatrix, metric: Metric, average?: AverageMethod, label?: string,
+        parameters = new MetricParameters()): number {
+        const customMetric = this.customMetrics.get(metric);
+        if (customMetric) {
+            return this.calculateCustom(customMetric.formula, confusionMatrix.labels, this.getCounts(confusionMatrix.matrix), label,
+                (reference, referenceLabel) => this.calculate(confusionMatrix, reference, average, referenceLabel, parameters));
+        }
         switch (metric) {
             case MetricsEnum.Accuracy:
                 return confusionMatrix.accuracy({ label, average });
@@ -19,23 +74,224 @@ export class MetricService {
             case MetricsEnum.Specificity:
                 return confusionMatrix.specificity({ label, average });
         }
+        return this.calculateFromCounts(confusionMatrix.labels, this.getCounts(confusionMatrix.matrix), metric, average, label,
+            parameters);
+    }
+
+    /**
+     * Calculates a metric from the one-vs-rest counts of each label, without the confusion matrix
+     * (e.g. for the bootstrap resamples).
+     * @param labels The labels, in the counts order.
+     * @param counts The counts of each label.
+     * @param metric The metric, built-in or custom.
+     * @param average How the labels values are averaged when no label is given (weighted when not defined).
+     * @param label The label to calculate the metric for.
+     * @param parameters Metric specific parameters.
+     * @returns The metric value.
+     */
+    calculateFromCounts(labels: Array<string>, counts: Array<MetricCounts>, metric: Metric, average?: AverageMethod,
+        label?: string, parameters = new MetricParameters()): number {
+        const customMetric = this.customMetrics.get(metric);
+        if (customMetric) {
+            return this.calculateCustom(customMetric.formula, labels, counts, label,
+                (reference, referenceLabel) => this.calculateFromCounts(labels, counts, reference, average, referenceLabel, parameters));
+        }
+        if (label) {
+            const index = labels.indexOf(label);
+            return index >= 0 ? this.calculateLabel(counts[index], metric, parameters) : 0;
+        }
+        if (metric === MetricsEnum.MatthewsCorrelationCoefficient || metric === MetricsEnum.CohenKappa) {
+            return this.calculateMulticlass(counts, metric);
+        }
+        if (metric === MetricsEnum.BalancedAccuracy) {
+            return this.calculateBalancedAccuracy(counts);
+        }
+        switch (average) {
+            case AverageMethod.Micro:
+                return this.calculateLabel(this.sumCounts(counts), metric, parameters);
+            case AverageMethod.Macro:
+                return this.divide(counts.reduce((sum, count) => sum + this.calculateLabel(count, metric, parameters), 0),
+                    counts.length);
+        }
+        const support = counts.reduce((sum, count) => sum + count.truePositives + count.falseNegatives, 0);
+        return this.divide(counts.reduce((sum, count) =>
+            sum + (count.truePositives + count.falseNegatives) * this.calculateLabel(count, metric, parameters), 0), support);
+    }
+
+    /**
+     * Gets the one-vs-rest counts of each label.
+     * @param matrix The confusion matrix values, rows are the actual labels and columns the predicted ones.
+     * @returns The counts, in the labels order.
+     */
+    getCounts(matrix: Array<Array<number>>): Array<MetricCounts> {
+        const total = matrix.reduce((sum, row) => sum + row.reduce((rowSum, value) => rowSum + value, 0), 0);
+        return matrix.map((row, index) => {
+            const truePositives = row[index];
+            const falseNegatives = row.reduce((sum, value) => sum + value, 0) - truePositives;
+            const falsePositives = matrix.reduce((sum, other) => sum + other[index], 0) - truePositives;
+            return {
+                truePositives,
+                falsePositives,
+                falseNegatives,
+                trueNegatives: total - truePositives - falsePositives - falseNegatives
+            };
+        });
+    }
+
+    /**
+     * Checks if lower values of a metric are better (e.g. error rates).
+     * @param metric The metric.
+     * @returns True if lower is better.
+     */
+    isLowerBetter(metric: Metric): boolean {
+        if (this.customMetrics.has(metric)) {
+            return !!this.customMetrics.get(metric)?.metric.lowerIsBetter;
+        }
+        return metric === MetricsEnum.MissClassificationRate ||
+            metric === MetricsEnum.FalsePositiveRate ||
+            metric === MetricsEnum.FalseNegativeRate;
+    }
+
+    /**
+     * Checks if a metric has a beta parameter.
+     * @param metric The metric.
+     * @returns True for the F-beta score.
+     */
+    hasBeta(metric: Metric): boolean {
+        return metric === MetricsEnum.FBetaScore;
     }
 
     getMetricEnum(value: string | undefined): MetricsEnum | null {
-        switch (value) {
+        return Object.values(MetricsEnum).find(metric => metric === value) ?? null;
+    }
+
+    /**
+     * Gets a built-in or custom metric from its text.
+     * @param value The metric text.
+     * @returns The metric, or null if unknown.
+     */
+    getMetric(value: string | undefined): Metric | null {
+        if (value && this.customMetrics.has(value)) {
+            return value;
+        }
+        return this.getMetricEnum(value);
+    }
+
+    /**
+     * Calculates a custom metric.
+     * Counts and metrics without a label in the formula refer to the given label or, without one,
+     * to the counts summed over all labels and to the metrics averaged.
+     */
+    private calculateCustom(formula: MetricFormulaNode, labels: Array<string>, counts: Array<MetricCounts>, label: string | undefined,
+        calculateMetric: (metric: Metric, label?: string) => number): number {
+        return this.metricFormulaService.evaluate(formula, {
+            count: (count, countLabel = label) => {
+                if (!countLabel) {
+                    return this.sumCounts(counts)[count];
+                }
+                const index = labels.indexOf(countLabel);
+                return index >= 0 ? counts[index][count] : NaN;
+            },
+            metric: (metric, metricLabel = label) => {
+                if (metricLabel && !labels.includes(metricLabel)) {
+                    return NaN;
+                }
+                return calculateMetric(metric, metricLabel);
+            }
+        });
+    }
+
+    private calculateLabel(counts: MetricCounts, metric: Metric, parameters: MetricParameters): number {
+        const { truePositives: tp, falsePositives: fp, falseNegatives: fn, trueNegatives: tn } = counts;
+        const total = tp + fp + fn + tn;
+        const precision = this.divide(tp, tp + fp);
+        const recall = this.divide(tp, tp + fn);
+        const specificity = this.divide(tn, tn + fp);
+        const negativePredictiveValue = this.divide(tn, tn + fn);
+        const beta2 = parameters.beta * parameters.beta;
+        const chance = (tp + fp) * (tp + fn) + (fn + tn) * (fp + tn);
+        switch (metric) {
             case MetricsEnum.Accuracy:
-                return MetricsEnum.Accuracy
-            case MetricsEnum.F1Score:
-                return MetricsEnum.F1Score
+                return this.divide(tp + tn, total);
             case MetricsEnum.MissClassificationRate:
-                return MetricsEnum.MissClassificationRate;
+                return this.divide(fp + fn, total);
             case MetricsEnum.Precision:
-                return MetricsEnum.Precision;
+                return precision;
             case MetricsEnum.Recall:
-                return MetricsEnum.Recall
+                return recall;
             case MetricsEnum.Specificity:
-                return MetricsEnum.Specificity
+                return specificity;
+            case MetricsEnum.F1Score:
+                return this.divide(2 * precision * recall, precision + recall);
+            case MetricsEnum.FBetaScore:
+                return this.divide((1 + beta2) * precision * recall, beta2 * precision + recall);
+            case MetricsEnum.BalancedAccuracy:
+                return (recall + specificity) / 2;
+            case MetricsEnum.MatthewsCorrelationCoefficient:
+                return this.divide(tp * tn - fp * fn, Math.sqrt((tp + fp) * (tp + fn) * (tn + fp) * (tn + fn)));
+            case MetricsEnum.CohenKappa:
+                return this.divide(total * (tp + tn) - chance, total * total - chance);
+            case MetricsEnum.NegativePredictiveValue:
+                return negativePredictiveValue;
+            case MetricsEnum.FalsePositiveRate:
+                return this.divide(fp, fp + tn);
+            case MetricsEnum.FalseNegativeRate:
+                return this.divide(fn, fn + tp);
+            case MetricsEnum.Informedness:
+                return recall + specificity - 1;
+            case MetricsEnum.Markedness:
+                return precision + negativePredictiveValue - 1;
         }
-        return null;
+        return 0;
+    }
+
+    /**
+     * Calculates the multiclass balanced accuracy, the mean recall of the labels with actual samples
+     * (as scikit-learn `balanced_accuracy_score`). It is not averaged otherwise.
+     * The balanced accuracy of a single label is its one-vs-rest (binary) one, the mean of its recall and specificity.
+     */
+    private calculateBalancedAccuracy(counts: Array<MetricCounts>): number {
+        const recalls = counts.filter(count => count.truePositives + count.falseNegatives > 0)
+            .map(count => count.truePositives / (count.truePositives + count.falseNegatives));
+        return this.divide(recalls.reduce((sum, recall) => sum + recall, 0), recalls.length);
+    }
+
+    /**
+     * Calculates the multiclass Matthews correlation coefficient or Cohen kappa.
+     */
+    private calculateMulticlass(counts: Array<MetricCounts>, metric: Metric): number {
+        const actual = counts.map(count => count.truePositives + count.falseNegatives);
+        const predicted = counts.map(count => count.truePositives + count.falsePositives);
+        const total = actual.reduce((sum, value) => sum + value, 0);
+        const correct = counts.reduce((sum, count) => sum + count.truePositives, 0);
+        const chance = actual.reduce((sum, value, index) => sum + value * predicted[index], 0);
+        if (metric === MetricsEnum.CohenKappa) {
+            return this.divide(total * correct - chance, total * total - chance);
+        }
+        const actualSquares = actual.reduce((sum, value) => sum + value * value, 0);
+        const predictedSquares = predicted.reduce((sum, value) => sum + value * value, 0);
+        return this.divide(correct * total - chance,
+            Math.sqrt((total * total - predictedSquares) * (total * total - actualSquares)));
+    }
+
+    /**
+     * Sums the counts of several labels, as for the micro average.
+     * @param counts The counts.
+     * @returns The summed counts.
+     */
+    sumCounts(counts: Array<MetricCounts>): MetricCounts {
+        return counts.reduce((sum, count) => ({
+            truePositives: sum.truePositives + count.truePositives,
+            falsePositives: sum.falsePositives + count.falsePositives,
+            falseNegatives: sum.falseNegatives + count.falseNegatives,
+            trueNegatives: sum.trueNegatives + count.trueNegatives
+        }), { truePositives: 0, falsePositives: 0, falseNegatives: 0, trueNegatives: 0 });
+    }
+
+    /**
+     * Divides two numbers, returning 0 instead of NaN when the denominator is 0 (e.g. a label never predicted).
+     */
+    private divide(numerator: number, denominator: number): number {
+        return denominator ? numerator / denominator : 0;
     }
-}
\ No newline at end of file
+}
@@ -1,7 +1,7 @@
 import { AverageMethod } from "@fullexpression/confusion-matrix-stats";
 
 export interface MetricsConfiguration {
-    metric: MetricsEnum,
+    metric: Metric,
     averageMethod: AverageMethod;
 }
 
@@ -11,5 +11,19 @@ export enum MetricsEnum {
     Precision = 'Precision',
     Recall = 'Recall',
     Specificity = 'Specificity',
-    F1Score = 'F1Score'
-}
\ No newline at end of file
+    F1Score = 'F1Score',
+    FBetaScore = 'FBetaScore',
+    BalancedAccuracy = 'Balanced Accuracy',
+    MatthewsCorrelationCoefficient = 'Matthews Correlation Coefficient',
+    CohenKappa = 'Cohen Kappa',
+    NegativePredictiveValue = 'Negative Predictive Value',
+    FalsePositiveRate = 'False Positive Rate',
+    FalseNegativeRate = 'False Negative Rate',
+    Informedness = 'Informedness',
+    Markedness = 'Markedness'
+}
+
+/**
+ * A built-in metric, or the name of a custom metric registered in the metric service.
+ */
+export type Metric = MetricsEnum | string;
@@ -1,8 +1,9 @@
 import { AfterViewInit, Component, ComponentFactoryResolver, EventEmitter, Input, OnInit, Output, ViewChild, ViewContainerRef } from "@angular/core";
 import { AverageMethod, ConfusionMatrix } from "@fullexpression/confusion-matrix-stats";
 import { MetricComponent } from "../../metric/metric.component";
-import { MetricStyleConfiguration } from "../../metric/metric.models";
-import { MetricsEnum } from "../../metrics.configurations.model";
+import { ConfidenceIntervalOptions, MetricParameters, MetricStyleConfiguration } from "../../metric/metric.models";
+import { Metric, MetricsEnum } from "../../metrics.configurations.model";
+import { WorkspaceMetric } from "../../../../services/workspace.service";
 
 @Component({
     selector: 'panel-item',
@@ -12,10 +13,34 @@ import { MetricsEnum } from "../../metrics.configurations.model";
 export class MetricsPanelItem implements AfterViewInit {
 
     @Input()
-    confusionMatrix = new ConfusionMatrix();
+    set confusionMatrix(value: ConfusionMatrix) {
+        this._confusionMatrix = value;
+        if (this.metricComponent) {
+            this.metricComponent.confusionMatrix = value;
+        }
+    }
 
+    get confusionMatrix(): ConfusionMatrix {
+        return this._confusionMatrix;
+    }
+
+    /**
+     * Confusion matrix compared with the confusion matrix, to show the metric delta.
+     */
     @Input()
-    metric: MetricsEnum = MetricsEnum.F1Score;
+    set comparedConfusionMatrix(value: ConfusionMatrix | undefined) {
+        this._comparedConfusionMatrix = value;
+        if (this.metricComponent) {
+            this.metricComponent.comparedConfusionMatrix = value;
+        }
+    }
+
+    get comparedConfusionMatrix(): ConfusionMatrix | undefined {
+        return this._comparedConfusionMatrix;
+    }
+
+    @Input()
+    metric: Metric = MetricsEnum.F1Score;
 
     @Input()
     averageMethod = AverageMethod.Weighted;
@@ -23,6 +48,12 @@ export class MetricsPanelItem implements AfterViewInit {
     @Input()
     label?: string = undefined;
 
+    @Input()
+    parameters?: MetricParameters;
+
+    @Input()
+    confidenceInterval?: ConfidenceIntervalOptions;
+
     @Input() round?: number;
 
     @Input()
@@ -31,9 +62,16 @@ export class MetricsPanelItem implements AfterViewInit {
     @Output()
     remove = new EventEmitter<void>();
 
+    @Output()
+    configurationChange = new EventEmitter<WorkspaceMetric>();
+
     @ViewChild('container', { read: ViewContainerRef })
     container: ViewContainerRef | undefined;
 
+    private _confusionMatrix = new ConfusionMatrix();
+    private _comparedConfusionMatrix: ConfusionMatrix | undefined;
+    private metricComponent: MetricComponent | undefined;
+
     constructor(private componentFactoryResolver: ComponentFactoryResolver) { }
 
     ngAfterViewInit(): void {
@@ -44,14 +82,19 @@ export class MetricsPanelItem implements AfterViewInit {
 
         if (instance) {
 
+            this.metricComponent = instance;
             instance.confusionMatrix = this.confusionMatrix;
+            instance.comparedConfusionMatrix = this.comparedConfusionMatrix;
             instance.metric = this.metric;
 
             instance.averageMethod = this.averageMethod;
             instance.label = this.label;
+            instance.parameters = this.parameters || new MetricParameters();
+            instance.confidenceInterval = this.confidenceInterval;
             instance.round = this.round;
             instance.style = this.style || new MetricStyleConfiguration();
             instance.remove.subscribe(() => this.remove.emit());
+            instance.configurationChange.subscribe((value: WorkspaceMetric) => this.configurationChange.emit(value));
             componentRef?.changeDetectorRef.detectChanges();
 
         }
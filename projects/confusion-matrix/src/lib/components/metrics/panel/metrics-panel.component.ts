@@ -1,7 +1,8 @@
 import { animate, style, transition, trigger } from "@angular/animations";
 import { AfterViewInit, Component, ComponentFactoryResolver, ElementRef, EventEmitter, Input, Output, ViewChild, ViewContainerRef } from "@angular/core";
 import { AverageMethod, ConfusionMatrix } from "@fullexpression/confusion-matrix-stats";
-import { MetricStyleConfiguration } from "../metric/metric.models";
+import { ThemeService } from "../../../services/theme.service";
+import { WorkspaceMetric } from "../../../services/workspace.service";
 import { MetricsEnum } from "../metrics.configurations.model";
 
 @Component({
@@ -43,19 +44,40 @@ export class MetricsPanelComponent implements AfterViewInit {
     @Input()
     confusionMatrix = new ConfusionMatrix();
 
+    /**
+     * Confusion matrix compared with the confusion matrix, the metrics deltas are shown when defined.
+     */
+    @Input()
+    comparedConfusionMatrix?: ConfusionMatrix;
+
+    /**
+     * Confusion matrix with the label groups collapsed, defined when there are label groups.
+     * The metrics can then be calculated at the super-classes level.
+     */
+    @Input()
+    groupedConfusionMatrix?: ConfusionMatrix;
+
+    @Input()
+    groupedComparedConfusionMatrix?: ConfusionMatrix;
+
+    /**
+     * Whether the metrics are calculated at the super-classes level.
+     */
+    groupLevel = false;
+
     @ViewChild('container')
     container: ElementRef | undefined;
 
-    metrics: Array<{
-        metric: MetricsEnum,
-        averageMethod: AverageMethod,
-        style?: MetricStyleConfiguration
-    }> = [{ metric: MetricsEnum.Accuracy, averageMethod: AverageMethod.Weighted },
+    metrics: Array<WorkspaceMetric> = [{ metric: MetricsEnum.Accuracy, averageMethod: AverageMethod.Weighted },
     { metric: MetricsEnum.Precision, averageMethod: AverageMethod.Weighted },
     { metric: MetricsEnum.Recall, averageMethod: AverageMethod.Weighted },
-    { metric: MetricsEnum.F1Score, averageMethod: AverageMethod.Weighted, style: { backgroundColor: '#ffe8a8', border: 'Round' } }];
+    {
+        metric: MetricsEnum.F1Score, averageMethod: AverageMethod.Weighted,
+        style: { backgroundColor: this.themeService.getColor('highlightedMetric', this.host.nativeElement), border: 'Round' }
+    }];
     //  { metric: MetricsEnum.Precision, averageMethod: AverageMethod.Weighted },
-    constructor(private componentFactoryResolver: ComponentFactoryResolver) { }
+    constructor(private componentFactoryResolver: ComponentFactoryResolver, private themeService: ThemeService,
+        private host: ElementRef) { }
 
     ngAfterViewInit(): void {
         // if (this.container) {
@@ -64,6 +86,14 @@ export class MetricsPanelComponent implements AfterViewInit {
 
     }
 
+    get metricsConfusionMatrix(): ConfusionMatrix {
+        return this.groupLevel && this.groupedConfusionMatrix ? this.groupedConfusionMatrix : this.confusionMatrix;
+    }
+
+    get metricsComparedConfusionMatrix(): ConfusionMatrix | undefined {
+        return this.groupLevel && this.groupedConfusionMatrix ? this.groupedComparedConfusionMatrix : this.comparedConfusionMatrix;
+    }
+
     add() {
         this.metrics.push({
             metric: MetricsEnum.Accuracy,
@@ -76,6 +106,14 @@ export class MetricsPanelComponent implements AfterViewInit {
         this.visibleChange.emit(false);
     }
 
+    /**
+     * Keeps the metric settings edited in its configuration dialog, so they are saved and exported.
+     * The metric is updated in place, its panel item is not created again.
+     */
+    configurationChanged(position: number, configuration: WorkspaceMetric) {
+        Object.assign(this.metrics[position], configuration);
+    }
+
     remove(position: number) {
         this.metrics.splice(position, 1);
     }
@@ -0,0 +1,7 @@
+/**
+ * A point of the confusion matrix, as fractions (0 to 1) of its width and height.
+ */
+export interface MinimapPoint {
+    x: number;
+    y: number;
+}
@@ -0,0 +1,11 @@
+import { ColorService } from "../../services/color.service";
+import { IntensityBarService } from "../intensity-bar/intensity-bar.service";
+import { MinimapComponent } from "./minimap.component";
+
+describe("Minimap component test suite", () => {
+
+    it("Can initialize correctly.", () => {
+        const minimap = new MinimapComponent(new IntensityBarService(new ColorService()));
+        expect(minimap).toBeTruthy();
+    });
+});
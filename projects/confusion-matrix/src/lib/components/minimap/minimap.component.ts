@@ -0,0 +1,138 @@
+import { Component, DoCheck, ElementRef, EventEmitter, Input, Output, ViewChild } from "@angular/core";
+import { IntensityBarService } from "../intensity-bar/intensity-bar.service";
+import { CanvasViewport } from "../matrix-canvas/matrix-canvas.component.model";
+import { MinimapPoint } from "./minimap.component.model";
+
+/**
+ * Overview thumbnail of the whole heatmap, with the visible part as a draggable rectangle.
+ * Clicking outside the rectangle zooms the main grid there.
+ */
+@Component({
+    selector: 'minimap',
+    templateUrl: './minimap.component.html',
+    styleUrls: ['./minimap.component.scss']
+})
+export class MinimapComponent implements DoCheck {
+
+    /**
+     * The displayed values, rows holding the actual labels.
+     */
+    @Input()
+    values = new Array<Array<number>>();
+
+    @Input()
+    viewport: CanvasViewport = { x: 0, y: 0, width: 1, height: 1 };
+
+    /**
+     * Width and height of the thumbnail, in pixels.
+     */
+    @Input()
+    size = 110;
+
+    /**
+     * Emitted while the rectangle is dragged, with the new center of the visible part.
+     */
+    @Output()
+    navigate = new EventEmitter<MinimapPoint>();
+
+    /**
+     * Emitted when a point outside the rectangle is clicked.
+     */
+    @Output()
+    zoomTo = new EventEmitter<MinimapPoint>();
+
+    @ViewChild('thumbnail') thumbnail: ElementRef<HTMLCanvasElement> | undefined;
+
+    private drag: { grabX: number, grabY: number, moved: boolean, inside: boolean } | undefined;
+
+    /**
+     * The values and colors the thumbnail was drawn with.
+     */
+    private drawnValues: Array<Array<number>> | undefined;
+    private drawnColorsKey = '';
+
+    constructor(private intensityBarService: IntensityBarService) { }
+
+    ngDoCheck(): void {
+        const colorsKey = this.getColorsKey();
+        if (this.values !== this.drawnValues || colorsKey !== this.drawnColorsKey) {
+            this.drawnValues = this.values;
+            this.drawnColorsKey = colorsKey;
+            requestAnimationFrame(() => this.draw());
+        }
+    }
+
+    onMouseDown(event: MouseEvent) {
+        const point = this.getPoint(event);
+        const inside = point.x >= this.viewport.x && point.x <= this.viewport.x + this.viewport.width &&
+            point.y >= this.viewport.y && point.y <= this.viewport.y + this.viewport.height;
+        const centerX = this.viewport.x + this.viewport.width / 2;
+        const centerY = this.viewport.y + this.viewport.height / 2;
+        this.drag = { grabX: inside ? point.x - centerX : 0, grabY: inside ? point.y - centerY : 0, moved: false, inside };
+        event.preventDefault();
+    }
+
+    onMouseMove(event: MouseEvent) {
+        if (this.drag) {
+            const point = this.getPoint(event);
+            this.drag.moved = true;
+            this.navigate.emit({ x: point.x - this.drag.grabX, y: point.y - this.drag.grabY });
+        }
+    }
+
+    onMouseUp(event: MouseEvent) {
+        if (this.drag && !this.drag.moved && !this.drag.inside) {
+            this.zoomTo.emit(this.getPoint(event));
+        }
+        this.drag = undefined;
+    }
+
+    onMouseLeave() {
+        this.drag = undefined;
+    }
+
+    /**
+     * Gets a pointer position as fractions of the thumbnail.
+     */
+    private getPoint(event: MouseEvent): MinimapPoint {
+        const bounds = (event.currentTarget as HTMLElement).getBoundingClientRect();
+        return {
+            x: Math.max(0, Math.min(1, (event.clientX - bounds.left) / bounds.width)),
+            y: Math.max(0, Math.min(1, (event.clientY - bounds.top) / bounds.height))
+        };
+    }
+
+    private getColorsKey(): string {
+        const service = this.intensityBarService;
+        return JSON.stringify([service.levelsColors, service.errorLevelsColors, service.separateErrors, service.diverging,
+            service.scale, service.maxValue, service.errorMaxValue]);
+    }
+
+    /**
+     * Draws the thumbnail. Above one label per pixel, one value per pixel is drawn.
+     */
+    private draw() {
+        const canvas = this.thumbnail?.nativeElement;
+        const context = canvas?.getContext('2d');
+        if (!canvas || !context) {
+            return;
+        }
+        const ratio = window.devicePixelRatio || 1;
+        canvas.width = Math.round(this.size * ratio);
+        canvas.height = Math.round(this.size * ratio);
+        context.setTransform(ratio, 0, 0, ratio, 0, 0);
+        context.clearRect(0, 0, this.size, this.size);
+
+        const count = this.values.length;
+        const cells = Math.min(count, this.size);
+        const cellSize = this.size / cells;
+        for (let row = 0; row < cells; row++) {
+            const valueRow = Math.floor(row * count / cells);
+            for (let column = 0; column < cells; column++) {
+                const valueColumn = Math.floor(column * count / cells);
+                context.fillStyle = this.intensityBarService.getColor(this.values[valueRow][valueColumn] ?? 0, valueRow !== valueColumn);
+                context.fillRect(column * cellSize, row * cellSize, Math.ceil(cellSize), Math.ceil(cellSize));
+            }
+        }
+    }
+}
@@ -1,2 +1,21 @@
 export * from './confusion-matrix.component';
-export * from './metrics/statistics';
\ No newline at end of file
+export * from './metrics/statistics';
+export * from './export/export.component.model';
+export * from './cell-samples/cell-samples.component.model';
+export * from './confusion-matrix.component.model';
+export * from './intensity-bar/intensity-bar.models';
+export * from './comparison/comparison.component';
+export * from './comparison/comparison.component.model';
+export * from './classification-report/classification-report.component';
+export * from './classification-report/classification-report.component.model';
+export * from './significance/significance.component';
+export * from './significance/significance.component.model';
+export * from './label-groups/label-groups.component.model';
+export * from './label-order/label-order.component.model';
+export { SignificanceService } from './significance/significance.service';
+export * from './metrics/metrics.configurations.model';
+export { MetricService } from './metrics/metric/metric.service';
+export { MetricFormulaError } from './metrics/metric/metric-formula.service';
+export {
+    CustomMetric, MetricParameters, ConfidenceInterval, ConfidenceIntervalMethod, ConfidenceIntervalOptions
+} from './metrics/metric/metric.models';
@@ -0,0 +1,96 @@
+import { AverageMethod } from "@fullexpression/confusion-matrix-stats";
+import { Metric, MetricsEnum } from "../metrics/metrics.configurations.model";
+import { MetricParameters } from "../metrics/metric/metric.models";
+
+/**
+ * Predictions of two classifiers on the same samples.
+ */
+export interface PairedPredictions {
+    actual: Array<string>;
+
+    /**
+     * Reference classifier predictions.
+     */
+    predicted: Array<string>;
+
+    /**
+     * Compared classifier predictions, in the same samples order.
+     */
+    comparedPredicted: Array<string>;
+
+    /**
+     * Optional labels order. Labels found in the predictions but not listed here are added at the end.
+     */
+    labels?: Array<string>;
+}
+
+export enum SignificanceTest {
+    /**
+     * Compares the samples only one of the classifiers got right. Does not depend on the metric.
+     */
+    McNemar = 'McNemar',
+
+    /**
+     * Resamples the samples to estimate how much the metric delta varies.
+     */
+    PairedBootstrap = 'Paired bootstrap',
+
+    /**
+     * Randomly swaps the two classifiers predictions to get the metric deltas found by chance.
+     */
+    Permutation = 'Permutation'
+}
+
+export interface SignificanceResult {
+    test: SignificanceTest;
+
+    /**
+     * Test statistic: chi-squared for McNemar, delta over its standard error for the bootstrap
+     * and the metric delta for the permutation test.
+     */
+    statistic: number;
+
+    /**
+     * Probability of a difference at least as big if both classifiers were equivalent.
+     */
+    pValue: number;
+
+    /**
+     * Odds ratio of the samples only the compared classifier got right for McNemar, otherwise the metric delta.
+     */
+    effectSize: number;
+
+    effectSizeName: string;
+
+    /**
+     * Confidence interval of the effect size, when available.
+     */
+    interval?: { lower: number, upper: number };
+}
+
+export class SignificanceOptions {
+    /**
+     * Metric compared by the bootstrap and permutation tests.
+     */
+    metric: Metric = MetricsEnum.F1Score;
+
+    averageMethod = AverageMethod.Weighted;
+
+    label?: string;
+
+    parameters = new MetricParameters();
+
+    /**
+     * Number of resamples or permutations.
+     */
+    iterations = 1000;
+
+    /**
+     * Significance level the p-values are compared with.
+     */
+    alpha = 0.05;
+
+    constructor(options?: Partial<SignificanceOptions>) {
+        Object.assign(this, options);
+    }
+}
@@ -0,0 +1,16 @@
+import { DecimalPipe } from "@angular/common";
+import { ConfidenceIntervalService } from "../metrics/metric/confidence-interval.service";
+import { MetricFormulaService } from "../metrics/metric/metric-formula.service";
+import { MetricService } from "../metrics/metric/metric.service";
+import { SignificanceComponent } from "./significance.component";
+import { SignificanceService } from "./significance.service";
+
+describe("Significance component test suite", () => {
+    it("Can initialize correctly.", () => {
+        const metricService = new MetricService(new MetricFormulaService());
+        const significanceService = new SignificanceService(metricService, new ConfidenceIntervalService(metricService));
+        const significance = new SignificanceComponent(significanceService, metricService, new DecimalPipe('en-US'));
+        expect(significance).toBeDefined();
+        expect(significance.results.length).toBe(0);
+    });
+});
@@ -0,0 +1,153 @@
+import { DecimalPipe } from "@angular/common";
+import { Component, EventEmitter, Input, OnDestroy, Output } from "@angular/core";
+import { CustomSelectValue } from "../html-basics/select/custom-select.models";
+import { MetricsEnum } from "../metrics/metrics.configurations.model";
+import { MetricService } from "../metrics/metric/metric.service";
+import { PairedPredictions, SignificanceOptions, SignificanceResult } from "./significance.component.model";
+import { SignificanceService } from "./significance.service";
+
+/**
+ * McNemar, paired bootstrap and permutation tests between two classifiers evaluated on the same samples.
+ */
+@Component({
+    selector: 'significance-tests',
+    templateUrl: './significance.component.html',
+    styleUrls: ['./significance.component.scss']
+})
+export class SignificanceComponent implements OnDestroy {
+
+    @Input()
+    set predictions(value: PairedPredictions | undefined) {
+        this._predictions = value;
+        this.refresh();
+    }
+
+    get predictions(): PairedPredictions | undefined {
+        return this._predictions;
+    }
+
+    @Input()
+    set options(value: SignificanceOptions) {
+        this._options = value;
+        this.refresh();
+    }
+
+    get options(): SignificanceOptions {
+        return this._options;
+    }
+
+    @Output()
+    optionsChange = new EventEmitter<SignificanceOptions>();
+
+    @Input()
+    title = 'Reference';
+
+    @Input()
+    comparedTitle = 'Compared';
+
+    /**
+     * Allows to define the values display format.
+     * If follows the angular decimal pipes rules:
+     * https://angular.io/api/common/DecimalPipe
+     */
+    @Input()
+    roundRules = '1.0-4';
+
+    results = new Array<SignificanceResult>();
+
+    error = '';
+
+    /**
+     * Whether the tests are running.
+     */
+    busy = false;
+
+    metrics = new Array<CustomSelectValue>();
+
+    private _predictions: PairedPredictions | undefined;
+    private _options = new SignificanceOptions();
+
+    /**
+     * Incremented on each refresh, so that only the latest tests results are shown.
+     */
+    private refreshes = 0;
+
+    constructor(private significanceService: SignificanceService,
+        private metricService: MetricService,
+        private decimalPipe: DecimalPipe) {
+        this.metrics = [...Object.values(MetricsEnum), ...this.metricService.getCustomMetrics().map(metric => metric.name)]
+            .map(metric => ({ id: metric, text: metric }));
+    }
+
+    ngOnDestroy(): void {
+        this.refreshes++;
+    }
+
+    get selectedMetric(): CustomSelectValue {
+        return { id: this._options.metric, text: this._options.metric };
+    }
+
+    /**
+     * Runs the tests again, showing the busy state since the bootstrap and permutation tests can take a while.
+     * Only the results of the latest predictions and options are shown.
+     */
+    refresh() {
+        const refresh = ++this.refreshes;
+        this.results = new Array<SignificanceResult>();
+        this.error = '';
+        this.busy = !!this._predictions;
+        if (!this._predictions) {
+            return;
+        }
+        this.significanceService.test(this._predictions, this._options)
+            .then(results => {
+                if (refresh === this.refreshes) {
+                    this.results = results;
+                }
+            })
+            .catch(error => {
+                if (refresh === this.refreshes) {
+                    this.error = error.message;
+                }
+            })
+            .finally(() => {
+                if (refresh === this.refreshes) {
+                    this.busy = false;
+                }
+            });
+    }
+
+    metricChanged(value: CustomSelectValue | undefined) {
+        const metric = this.metricService.getMetric(value?.text);
+        if (metric) {
+            this.options = new SignificanceOptions({ ...this._options, metric });
+            this.optionsChange.emit(this._options);
+        }
+    }
+
+    iterationsChanged(iterations: number) {
+        if (iterations >= 1) {
+            this.options = new SignificanceOptions({ ...this._options, iterations: Math.round(iterations) });
+            this.optionsChange.emit(this._options);
+        }
+    }
+
+    isSignificant(result: SignificanceResult): boolean {
+        return result.pValue < this._options.alpha;
+    }
+
+    getPValueText(result: SignificanceResult): string {
+        const minimum = Math.pow(10, -4);
+        return result.pValue < minimum ? `< ${minimum}` : this.format(result.pValue);
+    }
+
+    getEffectSizeText(result: SignificanceResult): string {
+        const effectSize = this.format(result.effectSize);
+        return result.interval ?
+            `${effectSize} [${this.format(result.interval.lower)}, ${this.format(result.interval.upper)}]` : effectSize;
+    }
+
+    format(value: number): string {
+        return isFinite(value) ? this.decimalPipe.transform(value, this.roundRules) ?? String(value) : String(value);
+    }
+}
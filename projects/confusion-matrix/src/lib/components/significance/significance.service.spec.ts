@@ -0,0 +1,61 @@
+import { MetricsEnum } from "../metrics/metrics.configurations.model";
+import { ConfidenceIntervalService } from "../metrics/metric/confidence-interval.service";
+import { MetricFormulaService } from "../metrics/metric/metric-formula.service";
+import { MetricService } from "../metrics/metric/metric.service";
+import { PairedPredictions, SignificanceOptions, SignificanceTest } from "./significance.component.model";
+import { SignificanceService } from "./significance.service";
+
+describe("Significance service test suite", () => {
+
+    const metricService = new MetricService(new MetricFormulaService());
+    const significanceService = new SignificanceService(metricService, new ConfidenceIntervalService(metricService));
+
+    /**
+     * Predictions where both classifiers are right, only the reference is right or only the compared one is right.
+     */
+    const getPredictions = (both: number, onlyReference: number, onlyCompared: number): PairedPredictions => {
+        const repeat = (label: string, times: number) => new Array<string>(times).fill(label);
+        return {
+            actual: repeat('Happiness', both + onlyReference + onlyCompared),
+            predicted: [...repeat('Happiness', both + onlyReference), ...repeat('Sadness', onlyCompared)],
+            comparedPredicted: [...repeat('Happiness', both), ...repeat('Sadness', onlyReference), ...repeat('Happiness', onlyCompared)]
+        };
+    };
+
+    it("Can run the McNemar test with the chi-squared distribution.", () => {
+        const result = significanceService.mcNemar(getPredictions(60, 10, 30));
+        expect(result.test).toBe(SignificanceTest.McNemar);
+        expect(result.statistic).toBeCloseTo(9.025);
+        expect(result.pValue).toBeCloseTo(0.00266, 4);
+        expect(result.effectSize).toBe(3);
+    });
+
+    it("Can run the exact McNemar test with few discordant samples.", () => {
+        expect(significanceService.mcNemar(getPredictions(20, 1, 5)).pValue).toBeCloseTo(14 / 64);
+    });
+
+    it("Can not find differences between identical classifiers.", () => {
+        const predictions = getPredictions(20, 0, 0);
+        predictions.predicted[0] = 'Sadness';
+        predictions.comparedPredicted[0] = 'Sadness';
+        const options = new SignificanceOptions({ metric: MetricsEnum.Recall, iterations: 100 });
+        expect(significanceService.pairedBootstrap(predictions, options).pValue).toBe(1);
+        expect(significanceService.permutation(predictions, options).pValue).toBe(1);
+    });
+
+    it("Can run all the tests.", async () => {
+        const results = await significanceService.test(getPredictions(60, 10, 30),
+            new SignificanceOptions({ metric: MetricsEnum.Recall, label: 'Happiness', iterations: 200 }));
+        expect(results.map(result => result.test))
+            .toEqual([SignificanceTest.McNemar, SignificanceTest.PairedBootstrap, SignificanceTest.Permutation]);
+        expect(results[1].effectSize).toBeCloseTo(0.2);
+        expect(results[1].pValue).toBeLessThan(0.05);
+        expect(results[2].pValue).toBeLessThan(0.05);
+    });
+
+    it("Can reject predictions of different lengths.", async () => {
+        const predictions = getPredictions(5, 0, 0);
+        predictions.comparedPredicted.pop();
+        await expectAsync(significanceService.test(predictions)).toBeRejectedWithError();
+    });
+});
@@ -0,0 +1,276 @@
+import { Injectable } from "@angular/core";
+import { ConfidenceIntervalService } from "../metrics/metric/confidence-interval.service";
+import { MetricService } from "../metrics/metric/metric.service";
+import { MetricCounts } from "../metrics/metric/metric.models";
+import { PairedPredictions, SignificanceOptions, SignificanceResult, SignificanceTest } from "./significance.component.model";
+import { resamplePairedCounts } from "./significance.worker";
+
+/**
+ * Paired predictions with the labels replaced by their index.
+ */
+interface IndexedPredictions {
+    labels: Array<string>;
+    actual: Array<number>;
+    predicted: Array<number>;
+    comparedPredicted: Array<number>;
+}
+
+/**
+ * Tests whether the difference between two classifiers evaluated on the same samples is significant.
+ */
+@Injectable()
+export class SignificanceService {
+
+    constructor(private metricService: MetricService,
+        private confidenceIntervalService: ConfidenceIntervalService) { }
+
+    /**
+     * Runs all the significance tests.
+     * The bootstrap resampling and the permutations run in a web worker, or in the main thread when web workers are not available.
+     * @param predictions The two classifiers predictions.
+     * @param options The metric compared and the number of iterations.
+     * @returns The McNemar, paired bootstrap and permutation tests results.
+     */
+    test(predictions: PairedPredictions, options = new SignificanceOptions()): Promise<Array<SignificanceResult>> {
+        let indexed: IndexedPredictions;
+        try {
+            indexed = this.index(predictions);
+        } catch (error) {
+            return Promise.reject(error);
+        }
+        return this.resample(indexed, options.iterations).then(counts => [
+            this.mcNemar(predictions),
+            this.getPairedBootstrap(indexed, options, counts),
+            this.getPermutation(indexed, options, counts)
+        ]);
+    }
+
+    /**
+     * McNemar test, exact (binomial) when less than 25 samples are discordant, otherwise chi-squared with continuity correction.
+     * @param predictions The two classifiers predictions.
+     * @returns The test result.
+     */
+    mcNemar(predictions: PairedPredictions): SignificanceResult {
+        this.validate(predictions);
+        let onlyReference = 0;
+        let onlyCompared = 0;
+        predictions.actual.forEach((actual, index) => {
+            const reference = predictions.predicted[index] === actual;
+            const compared = predictions.comparedPredicted[index] === actual;
+            if (reference && !compared) {
+                onlyReference++;
+            } else if (compared && !reference) {
+                onlyCompared++;
+            }
+        });
+
+        const discordant = onlyReference + onlyCompared;
+        const statistic = discordant > 0 ? Math.pow(Math.max(Math.abs(onlyReference - onlyCompared) - 1, 0), 2) / discordant : 0;
+        const pValue = discordant < 25 ?
+            this.binomialTwoSided(Math.min(onlyReference, onlyCompared), discordant) :
+            this.erfc(Math.sqrt(statistic / 2));
+        return {
+            test: SignificanceTest.McNemar,
+            statistic,
+            pValue,
+            effectSize: onlyReference > 0 ? onlyCompared / onlyReference : onlyCompared > 0 ? Infinity : 1,
+            effectSizeName: 'Odds ratio'
+        };
+    }
+
+    /**
+     * Paired bootstrap test of the metric delta (compared minus reference): resamples the samples with replacement.
+     * @param predictions The two classifiers predictions.
+     * @param options The metric compared and the number of resamples.
+     * @returns The test result, with the delta confidence interval.
+     */
+    pairedBootstrap(predictions: PairedPredictions, options = new SignificanceOptions()): SignificanceResult {
+        const indexed = this.index(predictions);
+        return this.getPairedBootstrap(indexed, options, this.resampleCounts(indexed, options.iterations));
+    }
+
+    /**
+     * Permutation test of the metric delta (compared minus reference): randomly swaps the classifiers predictions of each sample.
+     * @param predictions The two classifiers predictions.
+     * @param options The metric compared and the number of permutations.
+     * @returns The test result.
+     */
+    permutation(predictions: PairedPredictions, options = new SignificanceOptions()): SignificanceResult {
+        const indexed = this.index(predictions);
+        return this.getPermutation(indexed, options, this.resampleCounts(indexed, options.iterations));
+    }
+
+    /**
+     * Paired bootstrap test from the counts of the resamples.
+     */
+    private getPairedBootstrap(predictions: IndexedPredictions, options: SignificanceOptions, counts: Float64Array): SignificanceResult {
+        const delta = this.getDelta(predictions, options);
+        const deltas = this.getIterationsDeltas(predictions, options, counts, 0);
+        const mean = deltas.reduce((sum, value) => sum + value, 0) / deltas.length;
+        const standardError = Math.sqrt(deltas.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / (deltas.length - 1));
+        const below = deltas.filter(value => value <= 0).length;
+        const above = deltas.filter(value => value >= 0).length;
+        return {
+            test: SignificanceTest.PairedBootstrap,
+            statistic: standardError > 0 ? delta / standardError : 0,
+            pValue: Math.min(1, 2 * Math.min(below, above) / deltas.length),
+            effectSize: delta,
+            effectSizeName: `${options.metric} delta`,
+            interval: this.confidenceIntervalService.getPercentileInterval(deltas, 1 - options.alpha)
+        };
+    }
+
+    /**
+     * Permutation test from the counts of the permutations.
+     */
+    private getPermutation(predictions: IndexedPredictions, options: SignificanceOptions, counts: Float64Array): SignificanceResult {
+        const delta = this.getDelta(predictions, options);
+        const extreme = this.getIterationsDeltas(predictions, options, counts, 2)
+            .filter(value => Math.abs(value) >= Math.abs(delta) - 1e-12).length;
+        return {
+            test: SignificanceTest.Permutation,
+            statistic: delta,
+            pValue: (extreme + 1) / (options.iterations + 1),
+            effectSize: delta,
+            effectSizeName: `${options.metric} delta`
+        };
+    }
+
+    /**
+     * Gets the metric delta (compared minus reference) over all the samples.
+     */
+    private getDelta(predictions: IndexedPredictions, options: SignificanceOptions): number {
+        const size = predictions.labels.length;
+        const matrix = predictions.labels.map(() => new Array<number>(size).fill(0));
+        const comparedMatrix = predictions.labels.map(() => new Array<number>(size).fill(0));
+        predictions.actual.forEach((actual, index) => {
+            matrix[actual][predictions.predicted[index]]++;
+            comparedMatrix[actual][predictions.comparedPredicted[index]]++;
+        });
+        return this.calculate(predictions, options, this.metricService.getCounts(comparedMatrix)) -
+            this.calculate(predictions, options, this.metricService.getCounts(matrix));
+    }
+
+    /**
+     * Gets the metric delta (compared minus reference) of each iteration.
+     * @param counts The counts of every iteration, see `resamplePairedCounts`.
+     * @param block The block of the reference counts in each iteration: 0 for the bootstrap, 2 for the permutation.
+     */
+    private getIterationsDeltas(predictions: IndexedPredictions, options: SignificanceOptions, counts: Float64Array,
+        block: number): Array<number> {
+        const size = predictions.labels.length;
+        const getCounts = (offset: number): Array<MetricCounts> => predictions.labels.map((_, label) => ({
+            truePositives: counts[offset + label * 4],
+            falsePositives: counts[offset + label * 4 + 1],
+            falseNegatives: counts[offset + label * 4 + 2],
+            trueNegatives: counts[offset + label * 4 + 3]
+        }));
+        const deltas = new Array<number>();
+        for (let iteration = 0; iteration < options.iterations; iteration++) {
+            const offset = (iteration * 4 + block) * size * 4;
+            deltas.push(this.calculate(predictions, options, getCounts(offset + size * 4)) -
+                this.calculate(predictions, options, getCounts(offset)));
+        }
+        return deltas;
+    }
+
+    private calculate(predictions: IndexedPredictions, options: SignificanceOptions, counts: Array<MetricCounts>): number {
+        return this.metricService.calculateFromCounts(predictions.labels, counts, options.metric, options.averageMethod,
+            options.label, options.parameters);
+    }
+
+    private resampleCounts(predictions: IndexedPredictions, iterations: number): Float64Array {
+        return resamplePairedCounts(predictions.labels.length, predictions.actual, predictions.predicted,
+            predictions.comparedPredicted, iterations);
+    }
+
+    /**
+     * Resamples the predictions in a web worker, falling back to the main thread if the worker can not run.
+     */
+    private resample(predictions: IndexedPredictions, iterations: number): Promise<Float64Array> {
+        let worker: Worker;
+        let url: string;
+        try {
+            const source = `const resamplePairedCounts = (${resamplePairedCounts.toString()});\n` +
+                'onmessage = event => postMessage(resamplePairedCounts(event.data.size, event.data.actual, ' +
+                'event.data.predicted, event.data.comparedPredicted, event.data.iterations));';
+            url = URL.createObjectURL(new Blob([source], { type: 'application/javascript' }));
+            worker = new Worker(url);
+        } catch {
+            return Promise.resolve(this.resampleCounts(predictions, iterations));
+        }
+        return new Promise<Float64Array>(resolve => {
+            const terminate = () => {
+                worker.terminate();
+                URL.revokeObjectURL(url);
+            };
+            worker.onmessage = (event: MessageEvent<Float64Array>) => {
+                terminate();
+                resolve(event.data);
+            };
+            worker.onerror = () => {
+                terminate();
+                resolve(this.resampleCounts(predictions, iterations));
+            };
+            worker.postMessage({
+                size: predictions.labels.length,
+                actual: predictions.actual,
+                predicted: predictions.predicted,
+                comparedPredicted: predictions.comparedPredicted,
+                iterations
+            });
+        });
+    }
+
+    private index(predictions: PairedPredictions): IndexedPredictions {
+        this.validate(predictions);
+        const labels = [...(predictions.labels ?? [])];
+        for (const label of [...predictions.actual, ...predictions.predicted, ...predictions.comparedPredicted]) {
+            if (!labels.includes(label)) {
+                labels.push(label);
+            }
+        }
+        const indexes = new Map(labels.map((label, index) => [label, index]));
+        const toIndexes = (values: Array<string>) => values.map(value => indexes.get(value) as number);
+        return {
+            labels,
+            actual: toIndexes(predictions.actual),
+            predicted: toIndexes(predictions.predicted),
+            comparedPredicted: toIndexes(predictions.comparedPredicted)
+        };
+    }
+
+    private validate(predictions: PairedPredictions) {
+        const samples = predictions.actual.length;
+        if (predictions.predicted.length !== samples || predictions.comparedPredicted.length !== samples) {
+            throw new Error(`Found ${samples} actual labels, ${predictions.predicted.length} predicted labels ` +
+                `and ${predictions.comparedPredicted.length} compared predicted labels.`);
+        }
+    }
+
+    /**
+     * Two-sided p-value of getting at most a number of successes out of some trials with a fair coin.
+     */
+    private binomialTwoSided(successes: number, trials: number): number {
+        if (trials === 0) {
+            return 1;
+        }
+        let probability = Math.pow(0.5, trials);
+        let cumulative = probability;
+        for (let i = 1; i <= successes; i++) {
+            probability *= (trials - i + 1) / i;
+            cumulative += probability;
+        }
+        return Math.min(1, 2 * cumulative);
+    }
+
+    /**
+     * Complementary error function (Numerical Recipes approximation, 1.2e-7 accurate).
+     */
+    private erfc(value: number): number {
+        const t = 1 / (1 + 0.5 * Math.abs(value));
+        const result = t * Math.exp(-value * value - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 +
+            t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 + t * (-0.82215223 + t * 0.17087277)))))))));
+        return value >= 0 ? result : 2 - result;
+    }
+}
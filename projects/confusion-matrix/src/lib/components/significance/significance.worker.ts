@@ -0,0 +1,72 @@
+/**
+ * Resamples paired predictions for the paired bootstrap and permutation tests,
+ * and gets the one-vs-rest counts of both classifiers for each iteration.
+ * The bootstrap resamples the samples with replacement, the permutation randomly swaps the classifiers predictions of each sample.
+ *
+ * The function runs in a web worker built from its source, so it must not use anything outside of its body.
+ * @param size The number of labels.
+ * @param actual The actual label index of each sample.
+ * @param predicted The reference classifier predicted label index of each sample.
+ * @param comparedPredicted The compared classifier predicted label index of each sample.
+ * @param iterations The number of resamples and permutations.
+ * @returns For every iteration, the counts of every label of the bootstrap reference, bootstrap compared,
+ * permutation reference and permutation compared predictions, in the true positives, false positives,
+ * false negatives and true negatives order.
+ */
+export function resamplePairedCounts(size: number, actual: Array<number>, predicted: Array<number>,
+    comparedPredicted: Array<number>, iterations: number): Float64Array {
+    const samples = actual.length;
+    const block = size * 4;
+    const counts = new Float64Array(iterations * block * 4);
+    const rows = new Array<number>(size);
+    const columns = new Array<number>(size);
+    const diagonal = new Array<number>(size);
+    const columnsCompared = new Array<number>(size);
+    const diagonalCompared = new Array<number>(size);
+
+    const write = (offset: number, rowTotals: Array<number>, columnTotals: Array<number>, truePositives: Array<number>) => {
+        for (let label = 0; label < size; label++) {
+            const labelOffset = offset + label * 4;
+            counts[labelOffset] = truePositives[label];
+            counts[labelOffset + 1] = columnTotals[label] - truePositives[label];
+            counts[labelOffset + 2] = rowTotals[label] - truePositives[label];
+            counts[labelOffset + 3] = samples - rowTotals[label] - columnTotals[label] + truePositives[label];
+        }
+    };
+    const reset = () => {
+        rows.fill(0);
+        columns.fill(0);
+        diagonal.fill(0);
+        columnsCompared.fill(0);
+        diagonalCompared.fill(0);
+    };
+    const add = (label: number, reference: number, compared: number) => {
+        rows[label]++;
+        columns[reference]++;
+        columnsCompared[compared]++;
+        diagonal[label] += reference === label ? 1 : 0;
+        diagonalCompared[label] += compared === label ? 1 : 0;
+    };
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+        const offset = iteration * block * 4;
+
+        reset();
+        for (let index = 0; index < samples; index++) {
+            const sample = Math.floor(Math.random() * samples);
+            add(actual[sample], predicted[sample], comparedPredicted[sample]);
+        }
+        write(offset, rows, columns, diagonal);
+        write(offset + block, rows, columnsCompared, diagonalCompared);
+
+        reset();
+        for (let index = 0; index < samples; index++) {
+            const swapped = Math.random() < 0.5;
+            const reference = swapped ? comparedPredicted[index] : predicted[index];
+            add(actual[index], reference, swapped ? predicted[index] : comparedPredicted[index]);
+        }
+        write(offset + block * 2, rows, columns, diagonal);
+        write(offset + block * 3, rows, columnsCompared, diagonalCompared);
+    }
+    return counts;
+}
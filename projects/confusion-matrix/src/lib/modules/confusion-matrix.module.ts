@@ -15,6 +15,10 @@ import { InputTextComponent } from '../components/html-basics/inputs/input-text/
 import { InputNumberComponent } from '../components/html-basics/inputs/input-number/input-number.component';
 import { CustomInputComponent } from '../components/html-basics/inputs/custom-input/custom-input.component';
 import { MetricService } from '../components/metrics/metric/metric.service';
+import { MetricFormulaService } from '../components/metrics/metric/metric-formula.service';
+import { ConfidenceIntervalService } from '../components/metrics/metric/confidence-interval.service';
+import { SignificanceComponent } from '../components/significance/significance.component';
+import { SignificanceService } from '../components/significance/significance.service';
 import { MetricsPanelComponent } from '../components/metrics/panel/metrics-panel.component';
 import { ToggleComponent } from '../components/html-basics/toggle/toggle.component';
 import { MetricsPanelItem } from '../components/metrics/panel/item/metrics-panel-item.component';
@@ -30,6 +34,28 @@ import { ButtonComponent } from '../components/html-basics/buttons/button/button
 import { AngularDraggableModule } from 'angular2-draggable';
 import { ResetButtonComponent } from '../components/html-basics/buttons/reset-button/reset-button.component';
 import { CloseButtonComponent } from '../components/html-basics/buttons/close-button/close-button.component';
+import { CsvService } from '../services/csv.service';
+import { PredictionsService } from '../services/predictions.service';
+import { ExportService } from '../services/export.service';
+import { ExportComponent } from '../components/export/export.component';
+import { CellSamplesComponent } from '../components/cell-samples/cell-samples.component';
+import { ColorService } from '../services/color.service';
+import { ComparisonService } from '../services/comparison.service';
+import { WorkspaceService } from '../services/workspace.service';
+import { ComparisonComponent } from '../components/comparison/comparison.component';
+import { ClassificationReportComponent } from '../components/classification-report/classification-report.component';
+import { ClassificationReportService } from '../components/classification-report/classification-report.service';
+import { ErrorMessageComponent } from '../components/dialogs/error-message/error-message.component';
+import { LabelGroupsComponent } from '../components/label-groups/label-groups.component';
+import { LabelGroupsService } from '../components/label-groups/label-groups.service';
+import { LabelEditComponent } from '../components/label-edit/label-edit.component';
+import { LabelMappingService } from '../services/label-mapping.service';
+import { LabelOrderComponent } from '../components/label-order/label-order.component';
+import { LabelOrderService } from '../components/label-order/label-order.service';
+import { MatrixCanvasComponent } from '../components/matrix-canvas/matrix-canvas.component';
+import { MinimapComponent } from '../components/minimap/minimap.component';
+import { CellEditService } from '../services/cell-edit.service';
+import { ThemeService } from '../services/theme.service';
 @NgModule({
     declarations: [ConfusionMatrixComponent, StatisticComponent,
         ConfigurationsComponent,
@@ -38,9 +64,16 @@ import { CloseButtonComponent } from '../components/html-basics/buttons/close-bu
         InputNumberComponent, CustomInputComponent, MetricsPanelComponent,
         ToggleComponent, MetricsPanelItem, IntensityBarComponent, IntensityBarConfigurationComponent,
         AddButtonComponent, RemoveButtonComponent, NormalizeComponent, ButtonComponent,
-        ResetButtonComponent, CloseButtonComponent],
+        ResetButtonComponent, CloseButtonComponent, ErrorMessageComponent, ExportComponent,
+        CellSamplesComponent, ComparisonComponent, ClassificationReportComponent, SignificanceComponent,
+        LabelGroupsComponent, LabelEditComponent, LabelOrderComponent, MatrixCanvasComponent, MinimapComponent],
     imports: [CommonModule, FormsModule, AngularDraggableModule],
-    exports: [ConfusionMatrixComponent, StatisticComponent],
-    providers: [DecimalPipe, DownloadService, ImportService, MetricService, UtilService, IntensityBarService, DialogService]
+    exports: [ConfusionMatrixComponent, StatisticComponent, ComparisonComponent, ClassificationReportComponent,
+        SignificanceComponent],
+    providers: [DecimalPipe, DownloadService, ImportService, MetricService, UtilService, IntensityBarService, DialogService,
+        CsvService, PredictionsService, ExportService, ColorService,
+        ComparisonService, ClassificationReportService, MetricFormulaService,
+        ConfidenceIntervalService, SignificanceService, WorkspaceService, LabelGroupsService,
+        LabelMappingService, LabelOrderService, CellEditService, ThemeService]
 })
 export class ConfusionMatrixModule { }
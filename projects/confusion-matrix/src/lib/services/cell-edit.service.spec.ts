@@ -0,0 +1,28 @@
+import { CellEditService } from "./cell-edit.service";
+import { ImportError } from "./import.service";
+
+describe("Cell edit service test suite", () => {
+
+    const cellEditService = new CellEditService();
+
+    it("Can parse the values typed and explain the invalid ones.", () => {
+        expect(cellEditService.parseValue(' 1,234 ')).toBe(1234);
+        expect(cellEditService.parseValue('0.25', true)).toBe(0.25);
+        expect(() => cellEditService.parseValue('0.25')).toThrowError(/whole numbers/);
+        expect(() => cellEditService.parseValue('abc')).toThrowError('"abc" is not a number.');
+        expect(() => cellEditService.parseValue('-1')).toThrowError(/negative/);
+    });
+
+    it("Can parse a block pasted from a spreadsheet.", () => {
+        expect(cellEditService.parseBlock('1\t2\r\n3\t4\r\n')).toEqual([[1, 2], [3, 4]]);
+        expect(() => cellEditService.parseBlock('1\tx\n3')).toThrowError(ImportError);
+    });
+
+    it("Can copy the selected block.", () => {
+        const matrix = [[1, 2, 3], [4, 5, 6], [7, 8, 9]];
+        const selection = { anchor: { row: 2, column: 2 }, focus: { row: 1, column: 1 } };
+        expect(cellEditService.formatBlock(matrix, selection)).toBe('5\t6\n8\t9');
+        expect(cellEditService.isSelected(selection, 1, 2)).toBeTrue();
+        expect(cellEditService.isSelected(selection, 0, 2)).toBeFalse();
+    });
+});
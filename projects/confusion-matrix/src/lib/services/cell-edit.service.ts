@@ -0,0 +1,108 @@
+import { Injectable } from "@angular/core";
+import { CellPosition, CellSelection } from "../components/confusion-matrix.component.model";
+import { ImportError } from "./import.service";
+
+/**
+ * Parses and formats the values edited, copied and pasted in the confusion matrix cells.
+ */
+@Injectable()
+export class CellEditService {
+
+    /**
+     * Parses a value typed in a cell. Group separators (1,234) are ignored.
+     * @param text The text typed.
+     * @param decimals Whether decimal values are accepted, e.g. when the values are normalized or weighted.
+     * @returns The value.
+     * @throws Error with the reason when the text is not a valid value.
+     */
+    parseValue(text: string, decimals = false): number {
+        const trimmed = text.trim().replace(/,(?=\d{3}(\D|$))/g, '');
+        if (trimmed === '') {
+            throw new Error('A value is required.');
+        }
+        const value = Number(trimmed);
+        if (!isFinite(value)) {
+            throw new Error(`"${text.trim()}" is not a number.`);
+        }
+        if (value < 0) {
+            throw new Error('Values can not be negative.');
+        }
+        if (!decimals && !Number.isInteger(value)) {
+            throw new Error('Only whole numbers are accepted, the confusion matrix holds counts.');
+        }
+        return value;
+    }
+
+    /**
+     * Parses a block of values pasted from a spreadsheet: lines of tab separated values.
+     * @param text The text pasted.
+     * @param decimals Whether decimal values are accepted.
+     * @returns The values, by row.
+     * @throws ImportError with each invalid value when the block is not valid.
+     */
+    parseBlock(text: string, decimals = false): Array<Array<number>> {
+        const lines = text.replace(/(\r?\n)+$/, '').split(/\r?\n/);
+        const details = new Array<string>();
+        const values = lines.map((line, row) => line.split('\t').map((value, column) => {
+            try {
+                return this.parseValue(value, decimals);
+            } catch (error) {
+                details.push(`Row ${row + 1}, column ${column + 1}: ${error.message}`);
+                return 0;
+            }
+        }));
+        if (values.some(row => row.length !== values[0].length)) {
+            details.push('All the rows must have the same number of values.');
+        }
+        if (details.length > 0) {
+            throw new ImportError('The pasted values are not valid.', details);
+        }
+        return values;
+    }
+
+    /**
+     * Converts the selected values into tab separated lines, as spreadsheets paste them.
+     * @param matrix The confusion matrix values.
+     * @param selection The selected values.
+     * @returns The selected values as text.
+     */
+    formatBlock(matrix: Array<Array<number>>, selection: CellSelection): string {
+        const { start, end } = this.getBounds(selection);
+        const lines = new Array<string>();
+        for (let row = start.row; row <= end.row; row++) {
+            lines.push(matrix[row].slice(start.column, end.column + 1).join('\t'));
+        }
+        return lines.join('\n');
+    }
+
+    /**
+     * Gets the top left and bottom right values of a selection.
+     */
+    getBounds(selection: CellSelection): { start: CellPosition, end: CellPosition } {
+        return {
+            start: {
+                row: Math.min(selection.anchor.row, selection.focus.row),
+                column: Math.min(selection.anchor.column, selection.focus.column)
+            },
+            end: {
+                row: Math.max(selection.anchor.row, selection.focus.row),
+                column: Math.max(selection.anchor.column, selection.focus.column)
+            }
+        };
+    }
+
+    isSelected(selection: CellSelection | undefined, row: number, column: number): boolean {
+        if (!selection) {
+            return false;
+        }
+        const { start, end } = this.getBounds(selection);
+        return row >= start.row && row <= end.row && column >= start.column && column <= end.column;
+    }
+
+    /**
+     * Checks if a confusion matrix holds decimal values, e.g. normalized or weighted ones.
+     */
+    hasDecimals(matrix: Array<Array<number>>): boolean {
+        return matrix.some(row => row.some(value => !Number.isInteger(value)));
+    }
+}
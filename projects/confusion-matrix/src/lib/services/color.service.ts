@@ -0,0 +1,137 @@
+import { Injectable } from "@angular/core";
+
+@Injectable()
+export class ColorService {
+
+    private readonly white = [255, 255, 255, 1];
+
+    /**
+     * Colors already normalized by the browser, by CSS name.
+     */
+    private namedColors = new Map<string, Array<number> | undefined>();
+
+    /**
+     * Converts a CSS color into RGBA values.
+     * @param color The CSS color.
+     * @returns The red, green and blue values (0 to 255) and the alpha (0 to 1), or undefined if the color is unknown.
+     */
+    toRgba(color: string): Array<number> | undefined {
+        const value = color?.trim().toLowerCase();
+        if (!value) {
+            return undefined;
+        }
+        if (value === 'transparent') {
+            return [255, 255, 255, 0];
+        }
+
+        const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(value);
+        const rgb = /^rgba?\(([^)]+)\)$/.exec(value);
+        if (hex) {
+            const digits = hex[1].length <= 4 ? hex[1].split('').map(digit => digit + digit) : hex[1].match(/../g) ?? [];
+            const channels = digits.map((digit, index) => index < 3 ? parseInt(digit, 16) : parseInt(digit, 16) / 255);
+            return channels.length > 3 ? channels : [...channels, 1];
+        }
+        if (rgb) {
+            const channels = rgb[1].split(/[\s,/]+/).filter(channel => channel).map((channel, index) => {
+                if (channel.endsWith('%')) {
+                    return index < 3 ? parseFloat(channel) * 2.55 : parseFloat(channel) / 100;
+                }
+                return parseFloat(channel);
+            });
+            return channels.length > 3 ? channels.slice(0, 4) : [...channels, 1];
+        }
+
+        if (!this.namedColors.has(value)) {
+            this.namedColors.set(value, this.normalize(value));
+        }
+        return this.namedColors.get(value);
+    }
+
+    /**
+     * Converts a CSS color into RGB values blended over white.
+     * @param color The CSS color.
+     * @returns The red, green and blue values (0 to 255), or undefined if the color is transparent or unknown.
+     */
+    toRgb(color: string): Array<number> | undefined {
+        const rgba = this.toRgba(color);
+        if (!rgba || rgba[3] === 0) {
+            return undefined;
+        }
+        return this.blend(rgba);
+    }
+
+    /**
+     * Gets the color at a given position of a gradient.
+     * @param colors The gradient colors, evenly spaced.
+     * @param position The position, from 0 (first color) to 1 (last color).
+     * @returns The red, green, blue and alpha values.
+     */
+    interpolate(colors: Array<string>, position: number): Array<number> {
+        if (colors.length === 0) {
+            return this.white;
+        }
+        const scaled = Math.min(Math.max(position, 0), 1) * (colors.length - 1);
+        const index = Math.min(Math.floor(scaled), colors.length - 1);
+        const from = this.toRgba(colors[index]) ?? this.white;
+        const to = this.toRgba(colors[Math.min(index + 1, colors.length - 1)]) ?? this.white;
+        const ratio = scaled - index;
+        return from.map((channel, i) => {
+            const value = channel + (to[i] - channel) * ratio;
+            return i < 3 ? Math.round(value) : value;
+        });
+    }
+
+    /**
+     * Converts RGBA values into a CSS color.
+     * @param rgba The red, green, blue and optional alpha values.
+     * @returns The CSS color.
+     */
+    toCss(rgba: Array<number>): string {
+        const [red, green, blue] = rgba.map(channel => Math.round(channel));
+        const alpha = rgba.length > 3 ? rgba[3] : 1;
+        return alpha < 1 ? `rgba(${red}, ${green}, ${blue}, ${alpha})` : `rgb(${red}, ${green}, ${blue})`;
+    }
+
+    /**
+     * Gets the text color readable over a background color.
+     * @param background The background CSS color.
+     * @returns Black for light backgrounds and white for dark ones.
+     */
+    getContrastColor(background: string): string {
+        const rgb = this.toRgb(background);
+        if (!rgb) {
+            return 'black';
+        }
+        const [red, green, blue] = rgb.map(channel => {
+            const value = channel / 255;
+            return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+        });
+        const luminance = 0.2126 * red + 0.7152 * green + 0.0722 * blue;
+        return luminance > 0.179 ? 'black' : 'white';
+    }
+
+    /**
+     * Blends RGBA values over white.
+     * @param rgba The red, green, blue and alpha values.
+     * @returns The red, green and blue values.
+     */
+    blend(rgba: Array<number>): Array<number> {
+        const alpha = rgba[3];
+        return rgba.slice(0, 3).map(channel => Math.round(channel * alpha + 255 * (1 - alpha)));
+    }
+
+    /**
+     * Lets the browser normalize named and other CSS colors into hexadecimal or rgba().
+     */
+    private normalize(color: string): Array<number> | undefined {
+        const invalid = '#010203';
+        const context = typeof document !== 'undefined' ? document.createElement('canvas').getContext('2d') : null;
+        if (!context) {
+            return undefined;
+        }
+        context.fillStyle = invalid;
+        context.fillStyle = color;
+        const normalized = String(context.fillStyle);
+        return normalized === invalid ? undefined : this.toRgba(normalized);
+    }
+}
@@ -0,0 +1,20 @@
+import { ConfusionMatrix } from "@fullexpression/confusion-matrix-stats";
+import { ComparisonService } from "./comparison.service";
+
+describe("Comparison service test suite", () => {
+
+    const comparisonService = new ComparisonService();
+
+    it("Can align confusion matrices with different labels.", () => {
+        const confusionMatrix = new ConfusionMatrix({ labels: ['A', 'B'], matrix: [[5, 1], [2, 7]] });
+        const compared = new ConfusionMatrix({ labels: ['C', 'A'], matrix: [[3, 1], [2, 6]] });
+        const aligned = comparisonService.align(confusionMatrix, compared);
+
+        expect(aligned.confusionMatrix.labels).toEqual(['A', 'B', 'C']);
+        expect(aligned.confusionMatrix.matrix).toEqual([[5, 1, 0], [2, 7, 0], [0, 0, 0]]);
+        expect(aligned.comparedConfusionMatrix.labels).toEqual(['A', 'B', 'C']);
+        expect(aligned.comparedConfusionMatrix.matrix).toEqual([[6, 0, 2], [0, 0, 0], [1, 0, 3]]);
+        expect(aligned.missingLabels).toEqual(['C']);
+        expect(aligned.comparedMissingLabels).toEqual(['B']);
+    });
+});
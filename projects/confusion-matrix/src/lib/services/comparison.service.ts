@@ -0,0 +1,58 @@
+import { Injectable } from "@angular/core";
+import { ConfusionMatrix } from "@fullexpression/confusion-matrix-stats";
+
+/**
+ * Two confusion matrices with the same labels, in the same order.
+ */
+export interface AlignedConfusionMatrices {
+    confusionMatrix: ConfusionMatrix;
+    comparedConfusionMatrix: ConfusionMatrix;
+
+    /**
+     * Labels added to the first confusion matrix, with zero values, because only the compared one has them.
+     */
+    missingLabels: Array<string>;
+
+    /**
+     * Labels added to the compared confusion matrix, with zero values, because only the first one has them.
+     */
+    comparedMissingLabels: Array<string>;
+}
+
+@Injectable()
+export class ComparisonService {
+
+    /**
+     * Aligns two confusion matrices by label.
+     * Both get all the labels: the first matrix labels order, followed by the labels only the compared one has.
+     * @param confusionMatrix The first (reference) confusion matrix.
+     * @param comparedConfusionMatrix The confusion matrix compared with the first one.
+     * @returns The aligned confusion matrices and the labels missing in each one.
+     */
+    align(confusionMatrix: ConfusionMatrix, comparedConfusionMatrix: ConfusionMatrix): AlignedConfusionMatrices {
+        const labels: Array<string> = [...confusionMatrix.labels];
+        const comparedLabels: Array<string> = comparedConfusionMatrix.labels;
+        const missingLabels = comparedLabels.filter(label => !labels.includes(label));
+        const comparedMissingLabels = labels.filter(label => !comparedLabels.includes(label));
+        labels.push(...missingLabels);
+
+        return {
+            confusionMatrix: new ConfusionMatrix({ labels, matrix: this.getValues(confusionMatrix, labels) }),
+            comparedConfusionMatrix: new ConfusionMatrix({ labels: [...labels], matrix: this.getValues(comparedConfusionMatrix, labels) }),
+            missingLabels,
+            comparedMissingLabels
+        };
+    }
+
+    /**
+     * Gets the values of a confusion matrix in a given labels order.
+     * @param confusionMatrix The confusion matrix.
+     * @param labels The labels order.
+     * @returns The values, 0 for the labels the confusion matrix does not have.
+     */
+    getValues(confusionMatrix: ConfusionMatrix, labels: Array<string>): Array<Array<number>> {
+        const indexes = labels.map(label => confusionMatrix.labels.indexOf(label));
+        return indexes.map(row => indexes.map(column =>
+            row >= 0 && column >= 0 ? confusionMatrix.matrix[row][column] : 0));
+    }
+}
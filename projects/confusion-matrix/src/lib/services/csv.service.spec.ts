@@ -0,0 +1,45 @@
+import { ConfusionMatrix } from "@fullexpression/confusion-matrix-stats";
+import { CsvService } from "./csv.service";
+import { ImportError } from "./import.service";
+
+describe("Csv service test suite", () => {
+
+    const csvService = new CsvService();
+
+    it("Can convert a confusion matrix to csv and back.", () => {
+        const confusionMatrix = new ConfusionMatrix({
+            labels: ['Happiness', 'Sadness'],
+            matrix: [[5, 1], [2, 7]]
+        });
+        const csv = csvService.convertToCsv(confusionMatrix);
+        expect(csv).toBe(',Happiness,Sadness\nHappiness,5,1\nSadness,2,7');
+        expect(csvService.parse(csv)).toEqual({ labels: ['Happiness', 'Sadness'], matrix: [[5, 1], [2, 7]] });
+    });
+
+    it("Can detect tab delimiters and a header without row labels.", () => {
+        const result = csvService.parse('A\tB\n1\t2\n3\t4\n');
+        expect(result).toEqual({ labels: ['A', 'B'], matrix: [[1, 2], [3, 4]] });
+    });
+
+    it("Can read row labels without a header.", () => {
+        const result = csvService.parse('A;1;2\r\nB;3;4');
+        expect(result).toEqual({ labels: ['A', 'B'], matrix: [[1, 2], [3, 4]] });
+    });
+
+    it("Can read numeric labels.", () => {
+        const expected = { labels: ['0', '1'], matrix: [[5, 1], [2, 7]] };
+        expect(csvService.parse(',0,1\n0,5,1\n1,2,7')).toEqual(expected);
+        expect(csvService.parse('Actual,0,1\n0,5,1\n1,2,7')).toEqual(expected);
+        expect(csvService.parse('0,5,1\n1,2,7')).toEqual(expected);
+        expect(csvService.parse(',0,1,2\n0,5,1,0\n1,2,7,1\n2,0,1,9'))
+            .toEqual({ labels: ['0', '1', '2'], matrix: [[5, 1, 0], [2, 7, 1], [0, 1, 9]] });
+    });
+
+    it("Fails when the matrix is not square.", () => {
+        expect(() => csvService.parse('A,B\n1,2\n3,4\n5,6')).toThrowError(ImportError);
+    });
+
+    it("Fails when the row labels do not match the header.", () => {
+        expect(() => csvService.parse(',A,B\nA,1,2\nC,3,4')).toThrowError(ImportError);
+    });
+});
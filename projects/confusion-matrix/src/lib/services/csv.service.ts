@@ -0,0 +1,209 @@
+import { Injectable } from "@angular/core";
+import { ConfusionMatrix } from "@fullexpression/confusion-matrix-stats";
+import { ImportError } from "./import.service";
+
+/**
+ * Labels and values read from a CSV/TSV file.
+ */
+export interface CsvMatrix {
+    labels: Array<string>;
+    matrix: Array<Array<number>>;
+}
+
+@Injectable()
+export class CsvService {
+
+    /**
+     * Delimiters accepted on import, by detection priority.
+     */
+    readonly delimiters = ['\t', ';', ','];
+
+    /**
+     * Converts a confusion matrix into CSV/TSV text.
+     * The first row holds the labels and each following row starts with its label.
+     * @param confusionMatrix The confusion matrix to be converted.
+     * @param delimiter The column delimiter (',' for CSV, '\t' for TSV).
+     * @returns The confusion matrix as delimited text.
+     */
+    convertToCsv(confusionMatrix: ConfusionMatrix, delimiter = ','): string {
+        const header = ['', ...confusionMatrix.labels].map(value => this.escape(value, delimiter));
+        const rows = confusionMatrix.matrix.map((row: Array<number>, index: number) =>
+            [this.escape(confusionMatrix.labels[index], delimiter), ...row.map(value => String(value))]);
+        return [header, ...rows].map(row => row.join(delimiter)).join('\n');
+    }
+
+    /**
+     * Parses CSV/TSV text into labels and values.
+     * The delimiter, the header row and a leading row-label column are detected automatically.
+     * @param text The delimited text.
+     * @returns The labels and values read.
+     * @throws ImportError when the text does not describe a valid square matrix.
+     */
+    parse(text: string): CsvMatrix {
+        let rows = this.readRows(text);
+
+        let header: Array<string> | undefined;
+        if (this.hasHeader(rows)) {
+            header = rows[0];
+            rows = rows.slice(1);
+        }
+
+        if (rows.length === 0) {
+            throw new ImportError('The file has no values.');
+        }
+
+        // Numeric row labels (e.g. class ids) are told apart from values by the extra column.
+        let rowLabels: Array<string> | undefined;
+        if (rows.every(row => !this.isNumber(row[0])) || rows.every(row => row.length === rows.length + 1)) {
+            rowLabels = rows.map(row => row[0]);
+            rows = rows.map(row => row.slice(1));
+        }
+
+        if (header && rowLabels && header.length === rows[0].length + 1) {
+            header = header.slice(1);
+        }
+
+        const matrix = this.parseValues(rows);
+        const labels = this.getLabels(matrix.length, header, rowLabels);
+        return { labels, matrix };
+    }
+
+    /**
+     * Splits delimited text into rows of trimmed values, detecting the delimiter.
+     * Empty lines are ignored.
+     * @param text The delimited text.
+     * @returns The rows read.
+     * @throws ImportError when the text has no rows.
+     */
+    readRows(text: string): Array<Array<string>> {
+        const lines = text.split(/\r?\n/).filter(line => line.trim().length > 0);
+        if (lines.length === 0) {
+            throw new ImportError('The file is empty.');
+        }
+        const delimiter = this.detectDelimiter(lines[0]);
+        return lines.map(line => this.splitLine(line, delimiter));
+    }
+
+    /**
+     * Detects the delimiter used in a line of delimited text.
+     * @param line A line of delimited text, usually the first one.
+     * @returns The most frequent known delimiter, ',' if none is found.
+     */
+    detectDelimiter(line: string): string {
+        let delimiter = ',';
+        let occurrences = 0;
+        for (const candidate of this.delimiters) {
+            const count = this.splitLine(line, candidate).length - 1;
+            if (count > occurrences) {
+                delimiter = candidate;
+                occurrences = count;
+            }
+        }
+        return delimiter;
+    }
+
+    /**
+     * Checks if the first row is a header.
+     * It is when its first value is empty (the corner over the row labels) or any other value is not a number.
+     * A first value that is not a number, over numeric labels (e.g. "Actual,0,1"), is a header too
+     * when the other rows are square with a row label column.
+     * @param rows The rows read.
+     * @returns True if the first row holds the labels.
+     */
+    private hasHeader(rows: Array<Array<string>>): boolean {
+        const first = rows[0];
+        if (first[0].trim() === '' || first.some((value, index) => index > 0 && !this.isNumber(value))) {
+            return true;
+        }
+        return !this.isNumber(first[0]) && rows.length > 1 && rows.slice(1).every(row => row.length === rows.length);
+    }
+
+    /**
+     * Checks if a delimited text value holds a number.
+     * @param value The value to be checked.
+     * @returns True if the value is a number.
+     */
+    isNumber(value: string | undefined): boolean {
+        return value !== undefined && value.trim() !== '' && !isNaN(Number(value));
+    }
+
+    private parseValues(rows: Array<Array<string>>): Array<Array<number>> {
+        const errors = new Array<string>();
+        rows.forEach((row, rowIndex) => {
+            if (row.length !== rows.length) {
+                errors.push(`Row ${rowIndex + 1} has ${row.length} values, expected ${rows.length}.`);
+            }
+        });
+        if (errors.length > 0) {
+            throw new ImportError(`The matrix is not square: found ${rows.length} rows.`, errors);
+        }
+
+        const matrix = rows.map((row, rowIndex) => row.map((value, columnIndex) => {
+            if (!this.isNumber(value)) {
+                errors.push(`Row ${rowIndex + 1}, column ${columnIndex + 1}: "${value}" is not a number.`);
+            }
+            return Number(value);
+        }));
+        if (errors.length > 0) {
+            throw new ImportError('The matrix has invalid values.', errors);
+        }
+        return matrix;
+    }
+
+    private getLabels(size: number, header?: Array<string>, rowLabels?: Array<string>): Array<string> {
+        if (header && header.length !== size) {
+            throw new ImportError(`The header has ${header.length} labels, expected ${size}.`);
+        }
+
+        if (header && rowLabels) {
+            const mismatches = header
+                .map((label, index) => label !== rowLabels[index] ? `Column "${label}" does not match row "${rowLabels[index]}".` : '')
+                .filter(mismatch => mismatch);
+            if (mismatches.length > 0) {
+                throw new ImportError('The row labels do not match the column labels.', mismatches);
+            }
+        }
+
+        const labels = header ?? rowLabels ?? Array.from({ length: size }, (_, index) => `Label ${index + 1}`);
+        const duplicated = labels.filter((label, index) => labels.indexOf(label) !== index);
+        if (duplicated.length > 0) {
+            throw new ImportError('The labels must be unique.', duplicated.map(label => `"${label}" is duplicated.`));
+        }
+        return labels;
+    }
+
+    private splitLine(line: string, delimiter: string): Array<string> {
+        const values = new Array<string>();
+        let value = '';
+        let quoted = false;
+        for (let i = 0; i < line.length; i++) {
+            const char = line[i];
+            if (quoted) {
+                if (char === '"' && line[i + 1] === '"') {
+                    value += char;
+                    i++;
+                } else if (char === '"') {
+                    quoted = false;
+                } else {
+                    value += char;
+                }
+            } else if (char === '"') {
+                quoted = true;
+            } else if (char === delimiter) {
+                values.push(value.trim());
+                value = '';
+            } else {
+                value += char;
+            }
+        }
+        values.push(value.trim());
+        return values;
+    }
+
+    private escape(value: string, delimiter: string): string {
+        if (value.includes(delimiter) || value.includes('"') || value.includes('\n')) {
+            return `"${value.replace(/"/g, '""')}"`;
+        }
+        return value;
+    }
+}
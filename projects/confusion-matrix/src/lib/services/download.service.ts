@@ -15,4 +15,24 @@ export class DownloadService {
 
         document.body.removeChild(element);
     }
+
+    /**
+     * Downloads binary content, such as images or documents.
+     * @param blob The file content.
+     * @param filename The file name.
+     */
+    downloadBlob(blob: Blob, filename: string) {
+        const url = URL.createObjectURL(blob);
+        const element = document.createElement('a');
+        element.setAttribute('href', url);
+        element.setAttribute('download', filename);
+
+        element.style.display = 'none';
+        document.body.appendChild(element);
+
+        element.click();
+
+        document.body.removeChild(element);
+        URL.revokeObjectURL(url);
+    }
 }
\ No newline at end of file
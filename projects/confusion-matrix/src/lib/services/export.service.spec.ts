@@ -0,0 +1,81 @@
+import { DecimalPipe } from "@angular/common";
+import { ConfusionMatrix } from "@fullexpression/confusion-matrix-stats";
+import { IntensityBarService } from "../components/intensity-bar/intensity-bar.service";
+import { ColorService } from "./color.service";
+import { ExportLayout, ExportService } from "./export.service";
+
+describe("Export service test suite", () => {
+
+    const colorService = new ColorService();
+    const intensityBarService = new IntensityBarService(colorService);
+    const exportService = new ExportService(intensityBarService, colorService, new DecimalPipe('en-US'));
+    intensityBarService.levelsColors = ['#ffffff', '#000000'];
+
+    const layout: ExportLayout = {
+        width: 100,
+        height: 50,
+        rects: [{ x: 0, y: 0, width: 100, height: 50, fill: '#ffffff' }],
+        texts: [{ x: 10, y: 20, text: '<Cats & "Dogs">', size: 14, anchor: 'start' }],
+        gradients: [{ x: 80, y: 0, width: 10, height: 50, fill: '', colors: ['#ffffff', '#ff0000', '#000000'] }]
+    };
+
+    it("Can lay out the values grid with the values suffix.", () => {
+        const matrix = [[50, 50], [0, 100]];
+        intensityBarService.updateIntensityRange(matrix);
+        const result = exportService.buildLayout({
+            confusionMatrix: new ConfusionMatrix({ labels: ['A', 'B'], matrix: [[1, 1], [0, 2]] }),
+            values: matrix,
+            suffix: '%',
+            roundRules: '1.0-1'
+        });
+
+        // The first rect is the background, then the values by row.
+        const [background, first, second, third, fourth] = result.rects;
+        expect(background).toEqual(jasmine.objectContaining({ x: 0, y: 0, width: result.width, height: result.height }));
+        expect(second.x).toBe(first.x + 40);
+        expect(second.y).toBe(first.y);
+        expect(third.x).toBe(first.x);
+        expect(third.y).toBe(first.y + 40);
+        expect(fourth.x).toBe(first.x + 40);
+        expect(fourth.y).toBe(first.y + 40);
+        expect(first.fill).not.toBe(fourth.fill);
+        expect(result.texts.slice(0, 4).map(text => text.text)).toEqual(['50%', '50%', '0%', '100%']);
+        expect(result.texts[0]).toEqual(jasmine.objectContaining({ x: first.x + 20, y: first.y + 20, anchor: 'middle' }));
+    });
+
+    it("Moves the values grid down when there is a title.", () => {
+        const content = {
+            confusionMatrix: new ConfusionMatrix({ labels: ['A', 'B'], matrix: [[1, 1], [0, 2]] }),
+            roundRules: '1.0-0'
+        };
+        const withoutTitle = exportService.buildLayout(content);
+        const withTitle = exportService.buildLayout({ ...content, title: 'Emotions' });
+        expect(withTitle.rects[1].y).toBeGreaterThan(withoutTitle.rects[1].y);
+        expect(withTitle.texts.some(text => text.text === 'Emotions' && !!text.bold)).toBeTrue();
+    });
+
+    it("Can draw a layout as SVG, with its texts escaped.", () => {
+        const svg = exportService.toSvg(layout);
+        expect(svg).toContain('>&lt;Cats &amp; &quot;Dogs&quot;&gt;</text>');
+        expect(svg).not.toContain('<Cats');
+        expect(svg).toContain('<stop offset="0" stop-color="#ffffff"/><stop offset="0.5" stop-color="#ff0000"/>' +
+            '<stop offset="1" stop-color="#000000"/>');
+        expect(svg).toContain('fill="url(#intensity0)"');
+    });
+
+    it("Can draw a layout as PDF, with valid cross references and escaped texts.", async () => {
+        const blob = exportService.toPdf({ ...layout, texts: [{ ...layout.texts[0], text: 'a(b)c\\d é 日本' }] });
+        const bytes = new Uint8Array(await blob.arrayBuffer());
+        let pdf = '';
+        bytes.forEach(byte => pdf += String.fromCharCode(byte));
+
+        expect(pdf.startsWith('%PDF-1.4')).toBeTrue();
+        expect(pdf).toContain('(a\\(b\\)c\\\\d é ??) Tj');
+
+        const xref = pdf.lastIndexOf('xref\n');
+        expect(pdf.endsWith(`startxref\n${xref}\n%%EOF`)).toBeTrue();
+        const offsets = pdf.slice(xref).split('\n').slice(3, 9).map(line => Number(line.slice(0, 10)));
+        expect(offsets.length).toBe(6);
+        offsets.forEach((offset, index) => expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj\n`)).toBeTrue());
+    });
+});
@@ -0,0 +1,338 @@
+import { DecimalPipe } from "@angular/common";
+import { Injectable } from "@angular/core";
+import { ConfusionMatrix } from "@fullexpression/confusion-matrix-stats";
+import { ExportFormat, ExportOptions } from "../components/export/export.component.model";
+import { IntensityBarService } from "../components/intensity-bar/intensity-bar.service";
+import { ColorService } from "./color.service";
+
+/**
+ * What is drawn in an exported image.
+ */
+export interface ExportContent {
+    confusionMatrix: ConfusionMatrix;
+
+    /**
+     * Values displayed instead of the confusion matrix values (e.g. percentages).
+     */
+    values?: Array<Array<number>>;
+
+    /**
+     * Text appended to the displayed values and intensity bar numbers (e.g. '%').
+     */
+    suffix?: string;
+    title?: string;
+    roundRules: string;
+    metrics?: Array<{ name: string, value: string }>;
+}
+
+export interface ExportRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    fill: string;
+}
+
+export interface ExportText {
+    x: number;
+    y: number;
+    text: string;
+    size: number;
+    anchor: 'start' | 'middle' | 'end';
+    bold?: boolean;
+
+    /**
+     * Text color, black when not defined.
+     */
+    color?: string;
+
+    /**
+     * Rotates the text 90 degrees clockwise around (x, y), so it reads from top to bottom.
+     */
+    rotate?: boolean;
+}
+
+/**
+ * Exported image described as plain shapes, so it can be drawn in any format.
+ * Positions are in pixels from the top left corner and texts are vertically centered on y.
+ */
+export interface ExportLayout {
+    width: number;
+    height: number;
+    rects: Array<ExportRect>;
+    texts: Array<ExportText>;
+
+    /**
+     * Intensity bars, a second one is drawn for the errors when they have their own colors.
+     */
+    gradients: Array<ExportRect & { colors: Array<string> }>;
+}
+
+@Injectable()
+export class ExportService {
+
+    private readonly cellSize = 40;
+    private readonly fontSize = 14;
+    private readonly titleFontSize = 18;
+    private readonly margin = 20;
+    private readonly gap = 10;
+    private readonly barWidth = 10;
+    private readonly dashWidth = 13;
+
+    /**
+     * Number of bands used to draw the intensity bar gradient in PDF files.
+     */
+    private readonly pdfGradientSteps = 64;
+
+    constructor(private intensityBarService: IntensityBarService,
+        private colorService: ColorService,
+        private decimalPipe: DecimalPipe) { }
+
+    /**
+     * Exports the confusion matrix as an image or document.
+     * @param content What is drawn.
+     * @param options The export format and resolution.
+     * @returns The file content.
+     */
+    async export(content: ExportContent, options: ExportOptions): Promise<Blob> {
+        const layout = this.buildLayout(content);
+        switch (options.format) {
+            case ExportFormat.Png:
+                return this.toPng(layout, options.scale);
+            case ExportFormat.Pdf:
+                return this.toPdf(layout);
+        }
+        return new Blob([this.toSvg(layout)], { type: 'image/svg+xml' });
+    }
+
+    /**
+     * Calculates the position of the title, grid, labels, intensity bar and metrics.
+     * @param content What is drawn.
+     * @returns The layout.
+     */
+    buildLayout(content: ExportContent): ExportLayout {
+        const labels: Array<string> = content.confusionMatrix.labels;
+        const matrix: Array<Array<number>> = content.values ?? content.confusionMatrix.matrix;
+        const suffix = content.suffix ?? '';
+        const rects = new Array<ExportRect>();
+        const texts = new Array<ExportText>();
+
+        const labelWidth = Math.max(0, ...labels.map(label => this.measure(label, this.fontSize)));
+        const titleHeight = content.title ? this.titleFontSize + 2 * this.gap : 0;
+        const gridX = this.margin + labelWidth + this.gap;
+        const gridY = this.margin + titleHeight;
+        const gridSize = labels.length * this.cellSize;
+
+        matrix.forEach((row, rowIndex) => row.forEach((value, columnIndex) => {
+            const x = gridX + columnIndex * this.cellSize;
+            const y = gridY + rowIndex * this.cellSize;
+            const fill = this.intensityBarService.getColor(value, rowIndex !== columnIndex);
+            rects.push({ x, y, width: this.cellSize, height: this.cellSize, fill });
+            texts.push({
+                x: x + this.cellSize / 2, y: y + this.cellSize / 2, anchor: 'middle', size: this.fontSize,
+                color: this.colorService.getContrastColor(fill),
+                text: `${this.decimalPipe.transform(value, content.roundRules) ?? value}${suffix}`
+            });
+        }));
+
+        labels.forEach((label, index) => {
+            const center = index * this.cellSize + this.cellSize / 2;
+            texts.push({ x: gridX - this.gap, y: gridY + center, text: label, size: this.fontSize, anchor: 'end' });
+            texts.push({
+                x: gridX + center, y: gridY + gridSize + this.gap, text: label, size: this.fontSize, anchor: 'start', rotate: true
+            });
+        });
+
+        const gradients = new Array<ExportRect & { colors: Array<string> }>();
+        const bars = this.intensityBarService.separateErrors ? [false, true] : [false];
+        let barX = gridX + gridSize + 2 * this.gap;
+        bars.forEach(error => {
+            const colors = this.intensityBarService.getLevelsColors(error);
+            gradients.push({ x: barX, y: gridY, width: this.barWidth, height: gridSize, fill: '', colors });
+            let ticksWidth = 0;
+            colors.forEach((_, index) => {
+                const y = gridY + (colors.length > 1 ? index * gridSize / (colors.length - 1) : 0);
+                const intensity = this.intensityBarService.getIntensityNumber(index, error);
+                const text = `${this.decimalPipe.transform(intensity, content.roundRules) ?? ''}${suffix}`;
+                rects.push({ x: barX + this.barWidth, y, width: this.dashWidth, height: 1, fill: '#000000' });
+                texts.push({ x: barX + this.barWidth + this.dashWidth + 4, y, text, size: this.fontSize, anchor: 'start' });
+                ticksWidth = Math.max(ticksWidth, this.measure(text, this.fontSize));
+            });
+            if (bars.length > 1) {
+                const caption = error ? 'Errors' : 'Correct';
+                texts.push({ x: barX, y: gridY - this.gap, text: caption, size: this.fontSize, anchor: 'start' });
+                ticksWidth = Math.max(ticksWidth, this.measure(caption, this.fontSize) - this.barWidth - this.dashWidth - 4);
+            }
+            barX += this.barWidth + this.dashWidth + 4 + ticksWidth + 2 * this.gap;
+        });
+        const barsEnd = barX - 2 * this.gap;
+
+        let height = gridY + gridSize + this.gap + labelWidth + this.margin;
+        (content.metrics ?? []).forEach(metric => {
+            texts.push({ x: gridX, y: height, text: `${metric.name}: ${metric.value}`, size: this.fontSize, anchor: 'start' });
+            height += this.fontSize + this.gap;
+        });
+
+        const metricsWidth = Math.max(0, ...(content.metrics ?? []).map(metric =>
+            gridX + this.measure(`${metric.name}: ${metric.value}`, this.fontSize)));
+        const titleWidth = content.title ? this.measure(content.title, this.titleFontSize, true) + 2 * this.margin : 0;
+        const width = Math.max(barsEnd, metricsWidth, titleWidth) + this.margin;
+
+        if (content.title) {
+            texts.push({
+                x: width / 2, y: this.margin + this.titleFontSize / 2, text: content.title,
+                size: this.titleFontSize, anchor: 'middle', bold: true
+            });
+        }
+
+        rects.unshift({ x: 0, y: 0, width, height, fill: '#ffffff' });
+        return { width, height, rects, texts, gradients };
+    }
+
+    /**
+     * Draws a layout as a SVG document.
+     * @param layout The layout.
+     * @returns The SVG document.
+     */
+    toSvg(layout: ExportLayout): string {
+        const definitions = layout.gradients.map((gradient, gradientIndex) => {
+            const stops = gradient.colors.map((color, index) => {
+                const offset = gradient.colors.length > 1 ? index / (gradient.colors.length - 1) : 0;
+                return `<stop offset="${offset}" stop-color="${this.escapeXml(color)}"/>`;
+            });
+            return `<linearGradient id="intensity${gradientIndex}" x1="0" y1="0" x2="0" y2="1">${stops.join('')}</linearGradient>`;
+        });
+        const gradients = layout.gradients.map((gradient, index) => `<rect x="${gradient.x}" y="${gradient.y}" ` +
+            `width="${gradient.width}" height="${gradient.height}" fill="url(#intensity${index})"/>`);
+        const rects = layout.rects.map(rect =>
+            `<rect x="${rect.x}" y="${rect.y}" width="${rect.width}" height="${rect.height}" fill="${this.escapeXml(rect.fill)}"/>`);
+        const texts = layout.texts.map(text => {
+            const bold = text.bold ? ' font-weight="bold"' : '';
+            const color = text.color ? ` fill="${this.escapeXml(text.color)}"` : '';
+            const rotate = text.rotate ? ` transform="rotate(90 ${text.x} ${text.y})"` : '';
+            return `<text x="${text.x}" y="${text.y}" font-size="${text.size}" text-anchor="${text.anchor}" ` +
+                `dominant-baseline="central"${bold}${color}${rotate}>${this.escapeXml(text.text)}</text>`;
+        });
+
+        return [
+            `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.width}" height="${layout.height}" ` +
+            `viewBox="0 0 ${layout.width} ${layout.height}" font-family="Arial, Helvetica, sans-serif">`,
+            `<defs>${definitions.join('')}</defs>`,
+            ...rects,
+            ...gradients,
+            ...texts,
+            '</svg>'
+        ].join('\n');
+    }
+
+    /**
+     * Draws a layout as a PNG image.
+     * @param layout The layout.
+     * @param scale Resolution multiplier.
+     * @returns The PNG image.
+     */
+    toPng(layout: ExportLayout, scale = 1): Promise<Blob> {
+        return new Promise<Blob>((resolve, reject) => {
+            const image = new Image();
+            image.onload = () => {
+                const canvas = document.createElement('canvas');
+                canvas.width = Math.round(layout.width * scale);
+                canvas.height = Math.round(layout.height * scale);
+                const context = canvas.getContext('2d');
+                context?.scale(scale, scale);
+                context?.drawImage(image, 0, 0, layout.width, layout.height);
+                canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Unable to create the PNG image.')), 'image/png');
+            };
+            image.onerror = () => reject(new Error('Unable to create the PNG image.'));
+            image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(this.toSvg(layout))}`;
+        });
+    }
+
+    /**
+     * Draws a layout as a single page vector PDF document.
+     * Texts use the standard Helvetica font, so characters outside Latin-1 are replaced by '?'.
+     * @param layout The layout.
+     * @returns The PDF document.
+     */
+    toPdf(layout: ExportLayout): Blob {
+        const scale = 0.75; // CSS pixels to PDF points.
+        const pageWidth = layout.width * scale;
+        const pageHeight = layout.height * scale;
+        const operations = [`${scale} 0 0 ${scale} 0 0 cm`];
+
+        const fillRect = (rect: ExportRect, color?: Array<number>) => {
+            if (color) {
+                operations.push(`${this.toPdfColor(color)} rg ${rect.x} ${layout.height - rect.y - rect.height} ` +
+                    `${rect.width} ${rect.height} re f`);
+            }
+        };
+        layout.rects.forEach(rect => fillRect(rect, this.colorService.toRgb(rect.fill)));
+
+        layout.gradients.forEach(gradient => {
+            const step = gradient.height / this.pdfGradientSteps;
+            for (let i = 0; i < this.pdfGradientSteps; i++) {
+                const position = (i + 0.5) / this.pdfGradientSteps;
+                const color = this.colorService.blend(this.colorService.interpolate(gradient.colors, position));
+                fillRect({ ...gradient, y: gradient.y + i * step, height: step + 0.5 }, color);
+            }
+        });
+
+        layout.texts.forEach(text => {
+            const width = this.measure(text.text, text.size, text.bold);
+            const offset = text.anchor === 'middle' ? width / 2 : text.anchor === 'end' ? width : 0;
+            const baseline = text.size * 0.35;
+            const matrix = text.rotate
+                ? `0 -1 1 0 ${text.x - baseline} ${layout.height - text.y + offset}`
+                : `1 0 0 1 ${text.x - offset} ${layout.height - text.y - baseline}`;
+            const color = this.toPdfColor(this.colorService.toRgb(text.color ?? 'black') ?? [0, 0, 0]);
+            operations.push(`BT ${color} rg /${text.bold ? 'F2' : 'F1'} ${text.size} Tf ${matrix} Tm (${this.escapePdf(text.text)}) Tj ET`);
+        });
+
+        const content = operations.join('\n');
+        const objects = [
+            '<< /Type /Catalog /Pages 2 0 R >>',
+            '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+            `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Contents 4 0 R ` +
+            '/Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> >>',
+            `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+            '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+            '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+        ];
+
+        let pdf = '%PDF-1.4\n';
+        const offsets = objects.map((object, index) => {
+            const offset = pdf.length;
+            pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+            return offset;
+        });
+        const xref = pdf.length;
+        pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+        pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+        pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+
+        const bytes = new Uint8Array(pdf.length);
+        for (let i = 0; i < pdf.length; i++) {
+            bytes[i] = pdf.charCodeAt(i);
+        }
+        return new Blob([bytes], { type: 'application/pdf' });
+    }
+
+    /**
+     * Estimates the width of a text in Arial/Helvetica.
+     */
+    private measure(text: string, size: number, bold = false): number {
+        return text.length * size * (bold ? 0.6 : 0.55);
+    }
+
+    private toPdfColor(color: Array<number>): string {
+        return color.map(channel => (channel / 255).toFixed(3)).join(' ');
+    }
+
+    private escapePdf(text: string): string {
+        return text.replace(/[^\x20-\xff]/g, '?').replace(/[\\()]/g, match => `\\${match}`);
+    }
+
+    private escapeXml(text: string): string {
+        return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    }
+}
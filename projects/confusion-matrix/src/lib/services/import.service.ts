@@ -1,13 +1,28 @@
 import { Injectable } from "@angular/core";
 
+/**
+ * Error thrown when an imported file can not be converted into a confusion matrix.
+ */
+export class ImportError extends Error {
+    constructor(message: string, public details = new Array<string>()) {
+        super(message);
+        this.name = 'ImportError';
+    }
+}
+
 @Injectable()
 export class ImportService {
 
-    import(): Promise<string | null> {
+    /**
+     * Asks the user for a file and reads it as text.
+     * @param accept The file types accepted, in the input accept attribute format.
+     * @returns The file content, or null if no file was read.
+     */
+    import(accept = '.json'): Promise<string | null> {
         return new Promise<string | null>(resolve => {
             const input = document.createElement('input');
             input.setAttribute('type', 'file');
-            input.setAttribute('accept', '.json');
+            input.setAttribute('accept', accept);
             input.style.display = 'none';
             input.addEventListener('change', (event: any) => {
                 if (event?.target?.files?.length > 0) {
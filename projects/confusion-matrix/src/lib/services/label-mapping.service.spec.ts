@@ -0,0 +1,30 @@
+import { CsvService } from "./csv.service";
+import { ImportError } from "./import.service";
+import { LabelMappingService } from "./label-mapping.service";
+
+describe("Label mapping service test suite", () => {
+
+    const labelMappingService = new LabelMappingService(new CsvService());
+
+    it("Can parse JSON and CSV mappings.", () => {
+        expect(labelMappingService.parse('{"Sadness": "Negative", "Fear": "Negative"}'))
+            .toEqual({ Sadness: 'Negative', Fear: 'Negative' });
+        expect(labelMappingService.parse('Sadness,Negative\nFear,Negative\n'))
+            .toEqual({ Sadness: 'Negative', Fear: 'Negative' });
+    });
+
+    it("Can group the labels mapped to the same name.", () => {
+        const targets = labelMappingService.getTargets(['Happiness', 'Sadness', 'Fear', 'Anger'],
+            { Sadness: 'Negative', Fear: 'Negative', Happiness: 'Joy' });
+        expect(targets).toEqual([
+            { name: 'Joy', members: ['Happiness'] },
+            { name: 'Negative', members: ['Sadness', 'Fear'] },
+            { name: 'Anger', members: ['Anger'] }
+        ]);
+    });
+
+    it("Fails when a line has no new name.", () => {
+        expect(() => labelMappingService.parse('Sadness,Negative\nFear')).toThrowError(ImportError);
+        expect(() => labelMappingService.parse('{"Sadness": 1}')).toThrowError(ImportError);
+    });
+});
@@ -0,0 +1,93 @@
+import { Injectable } from "@angular/core";
+import { CsvService } from "./csv.service";
+import { ImportError } from "./import.service";
+
+/**
+ * New name of each label. Labels mapped to the same name are merged.
+ */
+export interface LabelMapping {
+    [label: string]: string;
+}
+
+/**
+ * A label once remapped, with the labels merged into it.
+ */
+export interface LabelMappingTarget {
+    name: string;
+
+    /**
+     * The labels merged into the target, in the labels order.
+     */
+    members: Array<string>;
+}
+
+@Injectable()
+export class LabelMappingService {
+
+    constructor(private csvService: CsvService) { }
+
+    /**
+     * Parses a label mapping file: a JSON object (`{"Sadness": "Negative"}`),
+     * or CSV/TSV text with the label in the first column and its new name in the second one.
+     * @param text The mapping file content.
+     * @returns The label mapping.
+     * @throws ImportError when the text is not a valid mapping.
+     */
+    parse(text: string): LabelMapping {
+        if (text.trim().startsWith('{')) {
+            return this.parseJson(text);
+        }
+
+        const mapping: LabelMapping = {};
+        const details = new Array<string>();
+        this.csvService.readRows(text).forEach((row, index) => {
+            if (row.length !== 2 || !row[0] || !row[1]) {
+                details.push(`Line ${index + 1} must have a label and its new name.`);
+            } else {
+                mapping[row[0]] = row[1];
+            }
+        });
+        if (details.length > 0) {
+            throw new ImportError('The label mapping is not valid.', details);
+        }
+        return mapping;
+    }
+
+    /**
+     * Gets the labels once remapped. Labels not in the mapping keep their name.
+     * @param labels The confusion matrix labels.
+     * @param mapping The label mapping.
+     * @returns The remapped labels, in the order of their first member.
+     */
+    getTargets(labels: Array<string>, mapping: LabelMapping): Array<LabelMappingTarget> {
+        const targets = new Array<LabelMappingTarget>();
+        for (const label of labels) {
+            const name = mapping[label] ?? label;
+            const target = targets.find(other => other.name === name);
+            if (target) {
+                target.members.push(label);
+            } else {
+                targets.push({ name, members: [label] });
+            }
+        }
+        return targets;
+    }
+
+    private parseJson(text: string): LabelMapping {
+        let mapping: any;
+        try {
+            mapping = JSON.parse(text);
+        } catch (error) {
+            throw new ImportError('The file is not valid JSON.', [error?.message ?? String(error)]);
+        }
+        if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+            throw new ImportError('The label mapping must be an object with the new name of each label.');
+        }
+        const invalid = Object.keys(mapping).filter(label => typeof mapping[label] !== 'string' || !mapping[label].trim());
+        if (invalid.length > 0) {
+            throw new ImportError('The label mapping is not valid.',
+                invalid.map(label => `The new name of ${label} must be a text.`));
+        }
+        return mapping;
+    }
+}
@@ -0,0 +1,54 @@
+import { CsvService } from "./csv.service";
+import { ImportError } from "./import.service";
+import { PredictionsService } from "./predictions.service";
+
+describe("Predictions service test suite", () => {
+
+    const predictionsService = new PredictionsService(new CsvService());
+
+    it("Can build a confusion matrix including labels only predicted.", () => {
+        const result = predictionsService.buildConfusionMatrix({
+            actual: ['Happiness', 'Sadness', 'Happiness'],
+            predicted: ['Happiness', 'Fear', 'Sadness']
+        });
+        expect(result.labels).toEqual(['Happiness', 'Sadness', 'Fear']);
+        expect(result.matrix).toEqual([[1, 1, 0], [0, 0, 1], [0, 0, 0]]);
+    });
+
+    it("Can use sample weights.", () => {
+        const result = predictionsService.buildConfusionMatrix({
+            actual: ['A', 'A', 'B'],
+            predicted: ['A', 'A', 'A'],
+            weights: [0.5, 2, 1]
+        });
+        expect(result.matrix).toEqual([[2.5, 0], [1, 0]]);
+    });
+
+    it("Can parse json and csv predictions files.", () => {
+        expect(predictionsService.parse('{"y_true": ["A", "B"], "y_pred": ["B", "B"]}').predicted).toEqual(['B', 'B']);
+        const csv = predictionsService.parse('predicted,actual,weight\nA,B,2\nB,B,1');
+        expect(csv).toEqual({ actual: ['B', 'B'], predicted: ['A', 'B'], weights: [2, 1] });
+    });
+
+    it("Can group the samples by value.", () => {
+        const cellSamples = predictionsService.buildCellSamples({
+            actual: ['A', 'A', 'B'],
+            predicted: ['A', 'A', 'A'],
+            samples: ['1', '2', { id: '3' }]
+        });
+        expect(cellSamples).toEqual({ A: { A: ['1', '2'] }, B: { A: [{ id: '3' }] } });
+    });
+
+    it("Fails when the labels or samples of a predictions file are not valid.", () => {
+        expect(() => predictionsService.parse('{"actual": ["A"], "predicted": ["A"], "labels": "AB"}')).toThrowError(ImportError);
+        expect(() => predictionsService.parse('{"actual": ["A"], "predicted": ["A"], "samples": "1"}')).toThrowError(ImportError);
+        expect(() => predictionsService.parse('{"actual": ["A"], "predicted": ["A"], "samples": ["1", "2"]}'))
+            .toThrowError(/2 samples for 1 predictions/);
+        expect(() => predictionsService.buildConfusionMatrix({ actual: ['A'], predicted: ['A'], samples: [] }))
+            .toThrowError(ImportError);
+    });
+
+    it("Fails when the number of actual and predicted labels differ.", () => {
+        expect(() => predictionsService.buildConfusionMatrix({ actual: ['A'], predicted: [] })).toThrowError(ImportError);
+    });
+});
@@ -0,0 +1,205 @@
+import { Injectable } from "@angular/core";
+import { CsvMatrix, CsvService } from "./csv.service";
+import { ImportError } from "./import.service";
+import { CellSample, CellSamples } from "../components/cell-samples/cell-samples.component.model";
+
+/**
+ * Raw classifier output: pairs of actual (y_true) and predicted (y_pred) labels.
+ */
+export interface Predictions {
+    actual: Array<string>;
+    predicted: Array<string>;
+
+    /**
+     * Optional sample weights. Each sample counts 1 when not defined.
+     */
+    weights?: Array<number>;
+
+    /**
+     * Optional labels order. Labels found in the predictions but not listed here are added at the end.
+     */
+    labels?: Array<string>;
+
+    /**
+     * Optional sample references (ids, paths or thumbnails), one per prediction.
+     */
+    samples?: Array<CellSample | string>;
+}
+
+@Injectable()
+export class PredictionsService {
+
+    /**
+     * Column names recognized in the header of a delimited predictions file.
+     */
+    readonly columnNames = {
+        actual: ['actual', 'y_true', 'true', 'label', 'target'],
+        predicted: ['predicted', 'y_pred', 'pred', 'prediction'],
+        weight: ['weight', 'weights', 'sample_weight']
+    };
+
+    constructor(private csvService: CsvService) { }
+
+    /**
+     * Builds the confusion matrix labels and values from raw predictions.
+     * Rows are the actual labels and columns the predicted ones.
+     * Labels that only appear as predictions are included as well.
+     * @param predictions The predictions.
+     * @returns The labels and values.
+     * @throws ImportError when the predictions are not consistent.
+     */
+    buildConfusionMatrix(predictions: Predictions): CsvMatrix {
+        const { actual, predicted, weights } = predictions;
+        if (actual.length !== predicted.length) {
+            throw new ImportError(`Found ${actual.length} actual labels and ${predicted.length} predicted labels.`);
+        }
+        if (weights && weights.length !== actual.length) {
+            throw new ImportError(`Found ${weights.length} weights for ${actual.length} predictions.`);
+        }
+        if (predictions.samples && predictions.samples.length !== actual.length) {
+            throw new ImportError(`Found ${predictions.samples.length} samples for ${actual.length} predictions.`);
+        }
+
+        const labels = [...(predictions.labels ?? [])];
+        for (const label of [...actual, ...predicted]) {
+            if (!labels.includes(label)) {
+                labels.push(label);
+            }
+        }
+
+        const matrix = labels.map(() => new Array<number>(labels.length).fill(0));
+        actual.forEach((label, index) => {
+            matrix[labels.indexOf(label)][labels.indexOf(predicted[index])] += weights ? weights[index] : 1;
+        });
+        return { labels, matrix };
+    }
+
+    /**
+     * Groups the prediction samples by actual and predicted label.
+     * @param predictions The predictions.
+     * @returns The samples behind each confusion matrix value, empty if the predictions have no samples.
+     */
+    buildCellSamples(predictions: Predictions): CellSamples {
+        const cellSamples: CellSamples = {};
+        predictions.samples?.forEach((sample, index) => {
+            const actual = predictions.actual[index];
+            const predicted = predictions.predicted[index];
+            if (actual === undefined || predicted === undefined) {
+                return;
+            }
+            cellSamples[actual] = cellSamples[actual] ?? {};
+            cellSamples[actual][predicted] = cellSamples[actual][predicted] ?? [];
+            cellSamples[actual][predicted].push(sample);
+        });
+        return cellSamples;
+    }
+
+    /**
+     * Parses a predictions file.
+     * Accepts JSON, either `{ actual, predicted, weights?, samples? }` or a list of `{ actual, predicted, weight? }`,
+     * and CSV/TSV with the actual, predicted and optional weight columns.
+     * @param text The file content.
+     * @returns The predictions read.
+     * @throws ImportError when the file does not hold valid predictions.
+     */
+    parse(text: string): Predictions {
+        const trimmed = text.trim();
+        if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+            return this.parseJson(trimmed);
+        }
+        return this.parseDelimited(trimmed);
+    }
+
+    private parseJson(text: string): Predictions {
+        let json: any;
+        try {
+            json = JSON.parse(text);
+        } catch (error) {
+            throw new ImportError('The file is not valid JSON.', [String(error?.message ?? error)]);
+        }
+
+        if (Array.isArray(json)) {
+            const hasWeights = json.some(sample => sample?.weight !== undefined);
+            return this.validate({
+                actual: json.map(sample => sample?.actual),
+                predicted: json.map(sample => sample?.predicted),
+                weights: hasWeights ? json.map(sample => sample?.weight ?? 1) : undefined
+            });
+        }
+
+        return this.validate({
+            actual: json.actual ?? json.y_true,
+            predicted: json.predicted ?? json.y_pred,
+            weights: json.weights ?? json.sample_weight,
+            labels: json.labels,
+            samples: json.samples
+        });
+    }
+
+    private parseDelimited(text: string): Predictions {
+        let rows = this.csvService.readRows(text);
+        let columns = { actual: 0, predicted: 1, weight: rows[0].length > 2 ? 2 : -1 };
+
+        const header = rows[0].map(value => value.toLowerCase());
+        const actualColumn = header.findIndex(value => this.columnNames.actual.includes(value));
+        const predictedColumn = header.findIndex(value => this.columnNames.predicted.includes(value));
+        if (actualColumn >= 0 && predictedColumn >= 0) {
+            columns = {
+                actual: actualColumn,
+                predicted: predictedColumn,
+                weight: header.findIndex(value => this.columnNames.weight.includes(value))
+            };
+            rows = rows.slice(1);
+        }
+
+        const errors = new Array<string>();
+        rows.forEach((row, index) => {
+            if (row.length <= Math.max(columns.actual, columns.predicted, columns.weight)) {
+                errors.push(`Row ${index + 1} has ${row.length} values.`);
+            } else if (columns.weight >= 0 && !this.csvService.isNumber(row[columns.weight])) {
+                errors.push(`Row ${index + 1}: weight "${row[columns.weight]}" is not a number.`);
+            }
+        });
+        if (errors.length > 0) {
+            throw new ImportError('The predictions file has invalid rows.', errors);
+        }
+
+        return {
+            actual: rows.map(row => row[columns.actual]),
+            predicted: rows.map(row => row[columns.predicted]),
+            weights: columns.weight >= 0 ? rows.map(row => Number(row[columns.weight])) : undefined
+        };
+    }
+
+    private validate(predictions: Predictions): Predictions {
+        const { actual, predicted, weights, labels, samples } = predictions;
+        if (!Array.isArray(actual) || !Array.isArray(predicted)) {
+            throw new ImportError('The file must define the actual and predicted labels.');
+        }
+        if ([...actual, ...predicted].some(label => label === undefined || label === null)) {
+            throw new ImportError('Every sample must have an actual and a predicted label.');
+        }
+        if (weights && (!Array.isArray(weights) || weights.some(weight => typeof weight !== 'number'))) {
+            throw new ImportError('The weights must be a list of numbers.');
+        }
+        if (labels !== undefined && (!Array.isArray(labels) ||
+            labels.some(label => typeof label !== 'string' && typeof label !== 'number'))) {
+            throw new ImportError('The labels must be a list of labels.');
+        }
+        if (samples !== undefined) {
+            if (!Array.isArray(samples) ||
+                samples.some(sample => typeof sample !== 'string' && typeof (sample as CellSample)?.id !== 'string')) {
+                throw new ImportError('The samples must be a list of ids or of objects with an id.');
+            }
+            if (samples.length !== actual.length) {
+                throw new ImportError(`Found ${samples.length} samples for ${actual.length} predictions.`);
+            }
+        }
+        return {
+            ...predictions,
+            actual: actual.map(label => String(label)),
+            predicted: predicted.map(label => String(label)),
+            labels: labels?.map(label => String(label))
+        };
+    }
+}
@@ -0,0 +1,4 @@
+export { Predictions } from './predictions.service';
+export { Workspace, WorkspaceMetric, WorkspaceService } from './workspace.service';
+export { LabelMapping } from './label-mapping.service';
+export { Theme, ThemeColors, Themes, ThemeService } from './theme.service';
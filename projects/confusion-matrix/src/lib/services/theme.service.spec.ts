@@ -0,0 +1,41 @@
+import { Themes, ThemeService } from "./theme.service";
+
+describe("Theme service test suite", () => {
+
+    const themeService = new ThemeService();
+
+    it("Can name the theme colors custom properties.", () => {
+        expect(themeService.getProperty('background')).toBe('--cm-background');
+        expect(themeService.getProperty('secondaryText')).toBe('--cm-secondary-text');
+        const properties = themeService.getProperties(Themes.Dark);
+        expect(properties['--cm-highlighted-metric']).toBe(Themes.Dark.colors.highlightedMetric);
+        expect(Object.keys(properties).length).toBe(Object.keys(Themes.Dark.colors).length);
+    });
+
+    it("Can apply a theme to an element and read its colors.", () => {
+        const element = document.createElement('div');
+        document.body.appendChild(element);
+        expect(themeService.getColor('text', element)).toBe(Themes.Light.colors.text);
+        themeService.apply(Themes.Dark, element);
+        expect(themeService.getColor('text', element)).toBe(Themes.Dark.colors.text);
+        element.remove();
+    });
+
+    it("Can copy the theme in use at an element to another one.", () => {
+        const themed = document.createElement('div');
+        const child = document.createElement('span');
+        const dialog = document.createElement('div');
+        themed.appendChild(child);
+        document.body.append(themed, dialog);
+        themeService.apply(Themes.Dark, themed);
+        expect(themeService.getColor('background', dialog)).toBe(Themes.Light.colors.background);
+        themeService.copy(child, dialog);
+        expect(themeService.getColor('background', dialog)).toBe(Themes.Dark.colors.background);
+        themed.remove();
+        dialog.remove();
+    });
+
+    it("Has the same colors in all the built-in themes.", () => {
+        expect(Object.keys(Themes.Dark.colors).sort()).toEqual(Object.keys(Themes.Light.colors).sort());
+    });
+});
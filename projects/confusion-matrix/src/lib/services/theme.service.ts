@@ -0,0 +1,192 @@
+import { Injectable } from "@angular/core";
+
+/**
+ * Colors of the confusion matrix, its panels and dialogs.
+ * Each color is exposed as a CSS custom property: `background` is `--cm-background`, `secondaryText` is `--cm-secondary-text`.
+ * The intensity bar colors are not part of the theme, they are set with the levels colors.
+ */
+export interface ThemeColors {
+    /**
+     * Dialogs, minimap and inputs background.
+     */
+    background: string;
+
+    /**
+     * Panels, title and tables header background.
+     */
+    surface: string;
+    text: string;
+    secondaryText: string;
+    border: string;
+
+    /**
+     * Lines between the list and table items.
+     */
+    divider: string;
+
+    /**
+     * Covers the page behind the dialogs.
+     */
+    backdrop: string;
+    shadow: string;
+
+    /**
+     * Focused and selected items.
+     */
+    accent: string;
+    error: string;
+    success: string;
+
+    /**
+     * Row and column of the hovered value.
+     */
+    highlight: string;
+
+    /**
+     * Row and column of the label found by a search.
+     */
+    searchHighlight: string;
+    tooltipBackground: string;
+    tooltipText: string;
+
+    /**
+     * Metrics tags: the metric name, its average method and its label.
+     */
+    metricTag: string;
+    averageTag: string;
+    labelTag: string;
+    tagText: string;
+
+    /**
+     * Background of the metric highlighted by default in the metrics panel (F1 score).
+     */
+    highlightedMetric: string;
+    button: string;
+}
+
+export interface Theme {
+    name: string;
+    colors: ThemeColors;
+}
+
+/**
+ * Built-in themes. The light theme colors are also the default values of the CSS custom properties.
+ */
+export const Themes: { Light: Theme, Dark: Theme } = {
+    Light: {
+        name: 'Light',
+        colors: {
+            background: '#ffffff',
+            surface: '#f9f9f9',
+            text: '#000000',
+            secondaryText: '#616161',
+            border: '#9e9e9e',
+            divider: '#e0e0e0',
+            backdrop: '#00000038',
+            shadow: '#0000008f',
+            accent: '#1976d2',
+            error: '#d32f2f',
+            success: '#4caf50',
+            highlight: '#0000000f',
+            searchHighlight: '#ffa000',
+            tooltipBackground: '#000000d9',
+            tooltipText: '#ffffff',
+            metricTag: '#ff9800',
+            averageTag: '#2196f3',
+            labelTag: '#3f51b5',
+            tagText: '#ffffff',
+            highlightedMetric: '#ffe8a8',
+            button: '#9e9e9e'
+        }
+    },
+    Dark: {
+        name: 'Dark',
+        colors: {
+            background: '#1e1e1e',
+            surface: '#2a2a2a',
+            text: '#e0e0e0',
+            secondaryText: '#b0b0b0',
+            border: '#757575',
+            divider: '#424242',
+            backdrop: '#00000099',
+            shadow: '#000000cc',
+            accent: '#64b5f6',
+            error: '#ef5350',
+            success: '#66bb6a',
+            highlight: '#ffffff1a',
+            searchHighlight: '#ffb300',
+            tooltipBackground: '#f5f5f5e6',
+            tooltipText: '#000000',
+            metricTag: '#f57c00',
+            averageTag: '#1976d2',
+            labelTag: '#5c6bc0',
+            tagText: '#ffffff',
+            highlightedMetric: '#6d5a1e',
+            button: '#616161'
+        }
+    }
+};
+
+/**
+ * Applies themes as CSS custom properties, and reads their colors where CSS can not be used (e.g. canvas drawing).
+ */
+@Injectable()
+export class ThemeService {
+
+    /**
+     * Prefix of the CSS custom properties.
+     */
+    readonly prefix = '--cm-';
+
+    /**
+     * Gets the CSS custom properties of a theme.
+     * @param theme The theme.
+     * @returns The value of each custom property, by property name.
+     */
+    getProperties(theme: Theme): { [property: string]: string } {
+        const properties: { [property: string]: string } = {};
+        (Object.keys(theme.colors) as Array<keyof ThemeColors>).forEach(color =>
+            properties[this.getProperty(color)] = theme.colors[color]);
+        return properties;
+    }
+
+    /**
+     * Gets the CSS custom property of a theme color.
+     * @param color The theme color, e.g. `secondaryText`.
+     * @returns The property name, e.g. `--cm-secondary-text`.
+     */
+    getProperty(color: keyof ThemeColors): string {
+        return this.prefix + color.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+    }
+
+    /**
+     * Sets a theme custom properties on an element, themed along with all its children.
+     * @param theme The theme.
+     * @param element The element, the whole page by default.
+     */
+    apply(theme: Theme, element: HTMLElement = document.documentElement): void {
+        const properties = this.getProperties(theme);
+        Object.keys(properties).forEach(property => element.style.setProperty(property, properties[property]));
+    }
+
+    /**
+     * Sets on an element the theme colors in use at another one,
+     * e.g. on a dialog shown outside of the themed confusion matrix that opened it.
+     * @param source The element whose theme is read.
+     * @param element The element themed.
+     */
+    copy(source: Element, element: HTMLElement): void {
+        (Object.keys(Themes.Light.colors) as Array<keyof ThemeColors>).forEach(color =>
+            element.style.setProperty(this.getProperty(color), this.getColor(color, source)));
+    }
+
+    /**
+     * Gets the current value of a theme color.
+     * @param color The theme color.
+     * @param element The element whose theme is read.
+     * @returns The color, the light theme one when no theme is applied.
+     */
+    getColor(color: keyof ThemeColors, element: Element = document.documentElement): string {
+        return getComputedStyle(element).getPropertyValue(this.getProperty(color)).trim() || Themes.Light.colors[color];
+    }
+}
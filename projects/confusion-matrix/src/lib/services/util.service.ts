@@ -17,8 +17,14 @@ export class UtilService {
         return JSON.parse(JSON.stringify(object));
     }
 
-    getComponentReference<T>(component: any): ComponentRef<T> {
+    /**
+     * Creates a component, usually to be shown in a dialog.
+     * @param component The component type.
+     * @param injector The injector used by the component, so it can share the caller services.
+     * @returns The component reference.
+     */
+    getComponentReference<T>(component: any, injector = this.injector): ComponentRef<T> {
         return this.componentFactoryResolver.resolveComponentFactory(component)
-            .create(this.injector) as ComponentRef<T>;
+            .create(injector) as ComponentRef<T>;
     }
 }
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { AverageMethod } from "@fullexpression/confusion-matrix-stats";
+import { DisplayMode } from "../components/confusion-matrix.component.model";
+import { MetricsEnum } from "../components/metrics/metrics.configurations.model";
+import { ImportError } from "./import.service";
+import { WorkspaceService } from "./workspace.service";
+
+describe("Workspace service test suite", () => {
+
+    const workspaceService = new WorkspaceService();
+    const confusionMatrix = { labels: ['Happiness', 'Sadness'], matrix: [[5, 1], [2, 7]] };
+
+    it("Can serialize a workspace and parse it back.", () => {
+        const workspace = {
+            confusionMatrix,
+            title: 'Emotions',
+            zoom: 1.5,
+            displayMode: DisplayMode.RowPercentage,
+            metrics: [{ metric: MetricsEnum.Recall, averageMethod: AverageMethod.Macro }],
+            normalization: { min: 0, max: 1 }
+        };
+        expect(workspaceService.parse(workspaceService.serialize(workspace)))
+            .toEqual({ ...workspace, version: workspaceService.version });
+    });
+
+    it("Can migrate a confusion matrix saved before workspaces existed.", () => {
+        const workspace = workspaceService.parse(JSON.stringify(confusionMatrix));
+        expect(workspace).toEqual({ version: workspaceService.version, confusionMatrix });
+    });
+
+    it("Fails when the workspace version is newer.", () => {
+        const text = JSON.stringify({ version: workspaceService.version + 1, confusionMatrix });
+        expect(() => workspaceService.parse(text)).toThrowError(ImportError);
+    });
+
+    it("Fails when the confusion matrix is not valid.", () => {
+        const text = JSON.stringify({ version: workspaceService.version, confusionMatrix: { labels: ['A'], matrix: [[1, 2]] } });
+        expect(() => workspaceService.parse(text)).toThrowError(ImportError);
+        expect(() => workspaceService.parse('{')).toThrowError(ImportError);
+    });
+});
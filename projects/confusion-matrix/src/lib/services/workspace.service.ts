@@ -0,0 +1,167 @@
+import { Injectable } from "@angular/core";
+import { AverageMethod } from "@fullexpression/confusion-matrix-stats";
+import { DisplayMode } from "../components/confusion-matrix.component.model";
+import { IntensityScale } from "../components/intensity-bar/intensity-bar.models";
+import {
+    ConfidenceIntervalOptions, CustomMetric, MetricParameters, MetricStyleConfiguration
+} from "../components/metrics/metric/metric.models";
+import { Metric } from "../components/metrics/metrics.configurations.model";
+import { LabelGroup } from "../components/label-groups/label-groups.component.model";
+import { ImportError } from "./import.service";
+
+/**
+ * A metric shown in the metrics panel.
+ */
+export interface WorkspaceMetric {
+    metric: Metric;
+    averageMethod: AverageMethod;
+
+    /**
+     * The label the metric is calculated for, all the labels averaged when not defined.
+     */
+    label?: string;
+
+    /**
+     * The maximum number of decimals shown.
+     */
+    round?: number;
+    style?: MetricStyleConfiguration;
+    parameters?: MetricParameters;
+    confidenceInterval?: ConfidenceIntervalOptions;
+}
+
+/**
+ * The whole confusion matrix view: the matrix and how it is displayed.
+ * Only the confusion matrix is required, the view settings not saved keep their current value.
+ */
+export interface Workspace {
+    version: number;
+
+    /**
+     * The confusion matrix values, before any normalization.
+     */
+    confusionMatrix: { labels: Array<string>, matrix: Array<Array<number>> };
+    title?: string;
+    zoom?: number;
+    levelsColors?: Array<string>;
+    intensityScale?: IntensityScale;
+    separateErrorColors?: boolean;
+    errorLevelsColors?: Array<string>;
+    differenceLevelsColors?: Array<string>;
+    displayMode?: DisplayMode;
+    roundRules?: string;
+    metrics?: Array<WorkspaceMetric>;
+
+    /**
+     * Custom metrics used by the metrics panel, registered again on import.
+     */
+    customMetrics?: Array<CustomMetric>;
+
+    /**
+     * The normalization bounds, when the confusion matrix is normalized.
+     */
+    normalization?: { min: number, max: number };
+    labelGroups?: Array<LabelGroup>;
+}
+
+/**
+ * Converts workspaces to and from their JSON document.
+ */
+@Injectable()
+export class WorkspaceService {
+
+    /**
+     * The version of the workspaces written.
+     */
+    readonly version = 1;
+
+    /**
+     * Migrations from each version to the next one, by version.
+     * The version 0 is the confusion matrix JSON, saved before workspaces existed.
+     */
+    private readonly migrations: { [version: number]: (document: any) => any } = {
+        0: (document: any) => ({
+            version: 1,
+            confusionMatrix: { labels: document.labels, matrix: document.matrix }
+        })
+    };
+
+    /**
+     * Converts a workspace into its JSON document.
+     * @param workspace The workspace.
+     * @returns The workspace as JSON.
+     */
+    serialize(workspace: Omit<Workspace, 'version'>): string {
+        return JSON.stringify({ ...workspace, version: this.version }, null, 2);
+    }
+
+    /**
+     * Parses a workspace JSON document, migrating the older versions forward.
+     * @param text The workspace, or a confusion matrix saved before workspaces existed, as JSON.
+     * @returns The workspace in the current version.
+     * @throws ImportError when the text is not a valid workspace.
+     */
+    parse(text: string): Workspace {
+        let document: any;
+        try {
+            document = JSON.parse(text);
+        } catch (error) {
+            throw new ImportError('The file is not valid JSON.', [error?.message ?? String(error)]);
+        }
+        if (!document || typeof document !== 'object') {
+            throw new ImportError('The file is not a workspace.');
+        }
+
+        let version = document.version ?? 0;
+        if (!Number.isInteger(version) || version < 0) {
+            throw new ImportError(`Unknown workspace version ${version}.`);
+        }
+        if (version > this.version) {
+            throw new ImportError(`The workspace version ${version} is newer than the supported one (${this.version}).`);
+        }
+        while (version < this.version) {
+            document = this.migrations[version](document);
+            version = document.version;
+        }
+
+        this.validate(document);
+        return document;
+    }
+
+    private validate(workspace: Workspace) {
+        const labels = workspace.confusionMatrix?.labels;
+        const matrix = workspace.confusionMatrix?.matrix;
+        if (!Array.isArray(labels) || !Array.isArray(matrix)) {
+            throw new ImportError('The workspace has no confusion matrix.');
+        }
+
+        const details = new Array<string>();
+        if (labels.some(label => typeof label !== 'string')) {
+            details.push('The labels must be text.');
+        }
+        if (matrix.length !== labels.length) {
+            details.push(`Found ${labels.length} labels and ${matrix.length} rows.`);
+        }
+        matrix.forEach((row, index) => {
+            if (!Array.isArray(row) || row.length !== matrix.length) {
+                details.push(`Row ${index + 1} must have ${matrix.length} values.`);
+            } else if (row.some(value => typeof value !== 'number' || !isFinite(value))) {
+                details.push(`Row ${index + 1} has values that are not numbers.`);
+            }
+        });
+        if (workspace.metrics !== undefined && !Array.isArray(workspace.metrics)) {
+            details.push('The metrics must be a list.');
+        }
+        if (workspace.labelGroups !== undefined && !Array.isArray(workspace.labelGroups)) {
+            details.push('The label groups must be a list.');
+        }
+        if (workspace.normalization &&
+            (typeof workspace.normalization.min !== 'number' || typeof workspace.normalization.max !== 'number')) {
+            details.push('The normalization bounds must be numbers.');
+        }
+
+        if (details.length > 0) {
+            throw new ImportError('The workspace is not valid.', details);
+        }
+    }
+}
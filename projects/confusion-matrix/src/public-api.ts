@@ -3,4 +3,5 @@
  */
 
 export * from './lib/modules/public.modules'
-export * from './lib/components/public.component';
\ No newline at end of file
+export * from './lib/components/public.component';
+export * from './lib/services/public.services';
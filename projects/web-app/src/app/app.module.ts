@@ -18,6 +18,9 @@ import { HomePageLineComponent } from './components/home-page/line/line-home-pag
 import { DocumentationComponent } from './components/documentation/documentation.component';
 import { LocationStrategy, HashLocationStrategy } from '@angular/common';
 import { MatrixConfiguration } from './components/editor/matrix-configuration/matrix-configuration.component';
+import { UrlStateService } from './services/url-state.service';
+import { LibraryComponent } from './components/library/library.component';
+import { LibraryService } from './services/library.service';
 @NgModule({
     declarations: [
         AppComponent,
@@ -27,7 +30,8 @@ import { MatrixConfiguration } from './components/editor/matrix-configuration/ma
         HomePageComponent,
         ButtonComponent,
         HomePageLineComponent,
-        DocumentationComponent
+        DocumentationComponent,
+        LibraryComponent
     ],
     imports: [
         BrowserModule,
@@ -39,7 +43,7 @@ import { MatrixConfiguration } from './components/editor/matrix-configuration/ma
         FormsModule,
         RouterModule.forRoot(routes)
     ],
-    providers: [{ provide: LocationStrategy, useClass: HashLocationStrategy }],
+    providers: [{ provide: LocationStrategy, useClass: HashLocationStrategy }, UrlStateService, LibraryService],
     bootstrap: [AppComponent]
 })
 export class AppModule { }
@@ -1,5 +1,9 @@
-import { Component, ElementRef, ViewChild } from '@angular/core';
+import { ChangeDetectorRef, Component, ElementRef, OnInit, ViewChild } from '@angular/core';
+import { ActivatedRoute, Router } from '@angular/router';
 import { ConfusionMatrix } from '@fullexpression/confusion-matrix-stats';
+import { ConfusionMatrixComponent, Theme, Themes, ThemeService, Workspace } from 'projects/confusion-matrix/src/public-api';
+import { UrlStateService } from '../../../services/url-state.service';
+import { LibraryEntry, LibraryService } from '../../../services/library.service';
 
 
 @Component({
@@ -8,7 +12,7 @@ import { ConfusionMatrix } from '@fullexpression/confusion-matrix-stats';
     styleUrls: ['./matrix-configuration.component.scss']
 })
 
-export class MatrixConfiguration {
+export class MatrixConfiguration implements OnInit {
 
     confusionMatrix = new ConfusionMatrix({
         labels: ["Happiness", "Sadness", "Fear", "Disgust", "Anger", "Contempt", "Surprise"],
@@ -28,12 +32,130 @@ export class MatrixConfiguration {
 
     colors = ['transparent', '#FADBD8', '#F5B7B1', '#F1948A', '#EC7063', '#E74C3C'];
 
+    theme: Theme = Themes.Light;
+
     @ViewChild("labelElement") labelElement: ElementRef | undefined;
 
     @ViewChild("valuesElement") valuesElement: ElementRef | undefined;
 
     @ViewChild("titleElement") titleElement: ElementRef | undefined;
 
+    @ViewChild(ConfusionMatrixComponent, { static: true }) confusionMatrixComponent: ConfusionMatrixComponent | undefined;
+
+    /**
+     * Result of the last share, or of opening a shared link.
+     */
+    shareMessage = '';
+
+    /**
+     * True when the view is too large to be shared as a link.
+     */
+    shareTooLarge = false;
+
+    /**
+     * The library entry opened, updated when saving.
+     */
+    libraryEntry: LibraryEntry | undefined;
+
+    libraryName = '';
+
+    /**
+     * The library entry tags, comma separated.
+     */
+    libraryTags = '';
+
+    libraryMessage = '';
+
+    constructor(private route: ActivatedRoute,
+        private router: Router,
+        private urlStateService: UrlStateService,
+        private libraryService: LibraryService,
+        private themeService: ThemeService,
+        private host: ElementRef,
+        private changeDetectorRef: ChangeDetectorRef) { }
+
+    ngOnInit(): void {
+        const state = this.route.snapshot.queryParamMap.get(this.urlStateService.parameter);
+        if (state) {
+            this.urlStateService.decode(state)
+                .then(workspace => this.applyWorkspace(workspace))
+                .catch(error => this.shareMessage = `Unable to open the shared link: ${error?.message ?? error}`);
+        }
+
+        const queryParams = this.route.snapshot.queryParamMap;
+        if (queryParams.has('entry')) {
+            this.openLibraryEntry(queryParams.get('entry')?.trim() ?? '');
+        }
+    }
+
+    /**
+     * Switches the confusion matrix theme, also set on the page card around it.
+     */
+    toggleTheme() {
+        this.theme = this.theme === Themes.Dark ? Themes.Light : Themes.Dark;
+        this.themeService.apply(this.theme, this.host.nativeElement);
+    }
+
+    /**
+     * Saves the whole view in the library, updating the entry opened if any.
+     */
+    async saveToLibrary() {
+        if (!this.confusionMatrixComponent) {
+            return;
+        }
+        const name = this.libraryName.trim() || this.matrixTitle || 'Untitled';
+        const tags = this.libraryTags.split(',').map(tag => tag.trim()).filter(tag => tag);
+        const workspace = this.confusionMatrixComponent.getWorkspace();
+        try {
+            this.libraryEntry = this.libraryEntry ?
+                await this.libraryService.update({ ...this.libraryEntry, name, tags, workspace }) :
+                await this.libraryService.add(name, tags, workspace);
+            this.libraryName = name;
+            this.libraryMessage = `Saved "${name}" in the library.`;
+        } catch (error) {
+            this.libraryMessage = `Unable to save in the library: ${error?.message ?? error}`;
+        }
+    }
+
+    /**
+     * Encodes the whole view into the URL and copies the link.
+     * Views too large for a link can be downloaded as a file instead.
+     */
+    async share() {
+        if (!this.confusionMatrixComponent) {
+            return;
+        }
+        let state: string;
+        try {
+            state = await this.urlStateService.encode(this.confusionMatrixComponent.getWorkspace());
+        } catch (error) {
+            this.shareMessage = `Unable to share the view: ${error?.message ?? error}`;
+            return;
+        }
+        const url = this.urlStateService.getUrl(state);
+        this.shareTooLarge = !this.urlStateService.canShare(url);
+        if (this.shareTooLarge) {
+            this.shareMessage = `The view is too large to be shared as a link (${url.length} characters, ` +
+                `${this.urlStateService.maxLength} at most). Download it as a file instead.`;
+            return;
+        }
+        await this.router.navigate([], {
+            relativeTo: this.route,
+            queryParams: { [this.urlStateService.parameter]: state },
+            replaceUrl: true
+        });
+        try {
+            await navigator.clipboard.writeText(url);
+            this.shareMessage = 'Link copied to the clipboard.';
+        } catch {
+            this.shareMessage = 'The link is in the address bar.';
+        }
+    }
+
+    download() {
+        this.confusionMatrixComponent?.save();
+    }
+
     changeTitle(event: any) {
         this.matrixTitle = event.target.value;
     }
@@ -56,6 +178,37 @@ export class MatrixConfiguration {
         console.log($event);
     }
 
+    /**
+     * Opens a library entry, showing why in the library message when it can not be opened.
+     * @param id The library entry id.
+     */
+    private async openLibraryEntry(id: string) {
+        try {
+            if (!id) {
+                throw new Error('the link has no matrix id.');
+            }
+            const libraryEntry = await this.libraryService.get(id);
+            if (!libraryEntry) {
+                throw new Error('the matrix is not in the library anymore.');
+            }
+            this.libraryEntry = libraryEntry;
+            this.libraryName = libraryEntry.name;
+            this.libraryTags = libraryEntry.tags.join(', ');
+            this.applyWorkspace(libraryEntry.workspace);
+        } catch (error) {
+            this.libraryMessage = `Unable to open the matrix: ${error?.message || 'the library could not be read.'}`;
+        }
+    }
+
+    /**
+     * Applies a workspace opened from the URL, then checks the view once as it changes the matrix bindings.
+     * @param workspace The workspace opened.
+     */
+    private applyWorkspace(workspace: Omit<Workspace, 'version'>) {
+        this.confusionMatrixComponent?.applyWorkspace(workspace);
+        this.changeDetectorRef.detectChanges();
+    }
+
     private refreshMatrixValues() {
         this.confusionMatrix = this.confusionMatrix.clone();
     }
@@ -0,0 +1,124 @@
+import { Component, OnInit } from "@angular/core";
+import { Router } from "@angular/router";
+import { LibraryEntry, LibraryService } from "../../services/library.service";
+
+/**
+ * Lists the confusion matrices saved in the browser.
+ */
+@Component({
+    selector: 'library',
+    templateUrl: './library.component.html',
+    styleUrls: ['./library.component.scss']
+})
+export class LibraryComponent implements OnInit {
+
+    entries = new Array<LibraryEntry>();
+
+    search = '';
+
+    /**
+     * Id of the entry being renamed.
+     */
+    renaming: string | undefined;
+
+    message = '';
+
+    constructor(private libraryService: LibraryService, private router: Router) { }
+
+    ngOnInit(): void {
+        this.refresh();
+    }
+
+    async refresh() {
+        try {
+            this.entries = await this.libraryService.search(this.search);
+        } catch (error) {
+            this.message = `Unable to read the library: ${error?.message ?? error}`;
+        }
+    }
+
+    open(entry: LibraryEntry) {
+        this.router.navigate(['/editor'], { queryParams: { entry: entry.id } });
+    }
+
+    async duplicate(entry: LibraryEntry) {
+        try {
+            await this.libraryService.duplicate(entry.id);
+        } catch (error) {
+            this.message = `Unable to duplicate "${entry.name}": ${error?.message ?? error}`;
+        }
+        await this.refresh();
+    }
+
+    /**
+     * Renames the entry being renamed, when its name input is validated or loses the focus.
+     * Only the first of both renames it.
+     */
+    async rename(entry: LibraryEntry, name: string) {
+        if (this.renaming !== entry.id) {
+            return;
+        }
+        this.renaming = undefined;
+        if (name.trim() && name.trim() !== entry.name) {
+            try {
+                await this.libraryService.rename(entry.id, name.trim());
+            } catch (error) {
+                this.message = `Unable to rename "${entry.name}": ${error?.message ?? error}`;
+            }
+            await this.refresh();
+        }
+    }
+
+    async remove(entry: LibraryEntry) {
+        if (confirm(`Delete "${entry.name}"?`)) {
+            try {
+                await this.libraryService.remove(entry.id);
+            } catch (error) {
+                this.message = `Unable to delete "${entry.name}": ${error?.message ?? error}`;
+            }
+            await this.refresh();
+        }
+    }
+
+    /**
+     * Downloads the whole library as a single file.
+     */
+    async export() {
+        let library: string;
+        try {
+            library = await this.libraryService.export();
+        } catch (error) {
+            this.message = `Unable to export the library: ${error?.message ?? error}`;
+            return;
+        }
+        const element = document.createElement('a');
+        element.setAttribute('href', 'data:text/plain;charset=utf-8,' + encodeURIComponent(library));
+        element.setAttribute('download', 'confusion-matrix-library.json');
+        element.style.display = 'none';
+        document.body.appendChild(element);
+        element.click();
+        document.body.removeChild(element);
+    }
+
+    /**
+     * Imports a library file, selected in a file input.
+     */
+    async import(event: any) {
+        const file: File | undefined = event?.target?.files?.[0];
+        if (!file) {
+            return;
+        }
+        try {
+            const imported = await this.libraryService.import(await file.text());
+            this.message = `${imported} matrices imported.`;
+        } catch (error) {
+            this.message = `Unable to import the library: ${error?.message ?? error}`;
+        }
+        event.target.value = '';
+        await this.refresh();
+    }
+
+    getLabels(entry: LibraryEntry): string {
+        return entry.workspace.confusionMatrix.labels.join(', ');
+    }
+}
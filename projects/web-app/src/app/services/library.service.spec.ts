@@ -0,0 +1,23 @@
+import { WorkspaceService } from 'projects/confusion-matrix/src/public-api';
+import { LibraryService } from './library.service';
+
+describe('Library service test suite', () => {
+
+    const libraryService = new LibraryService(new WorkspaceService());
+
+    it('Fails to import a file that is not a library.', async () => {
+        await expectAsync(libraryService.import('{"entries": [')).toBeRejectedWithError('The file is not valid JSON.');
+        await expectAsync(libraryService.import('{"labels": ["Happiness"], "matrix": [[1]]}'))
+            .toBeRejectedWithError('The file is not a confusion matrix library.');
+        await expectAsync(libraryService.import('null')).toBeRejectedWithError('The file is not a confusion matrix library.');
+    });
+
+    it('Fails to import a library with a matrix that is not valid.', async () => {
+        const library = {
+            version: libraryService.version,
+            entries: [{ id: 'emotions', name: 'Emotions', workspace: { confusionMatrix: { labels: ['Happiness'] } } }]
+        };
+        await expectAsync(libraryService.import(JSON.stringify(library)))
+            .toBeRejectedWithError('The workspace has no confusion matrix.');
+    });
+});
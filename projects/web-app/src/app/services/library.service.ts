@@ -0,0 +1,179 @@
+import { Injectable } from '@angular/core';
+import { Workspace, WorkspaceService } from 'projects/confusion-matrix/src/public-api';
+
+/**
+ * A confusion matrix saved in the library, with its whole view.
+ */
+export interface LibraryEntry {
+    id: string;
+    name: string;
+    tags: Array<string>;
+
+    /**
+     * Creation and last change times, in milliseconds since epoch.
+     */
+    created: number;
+    updated: number;
+    workspace: Omit<Workspace, 'version'>;
+}
+
+/**
+ * Library of confusion matrices saved in the browser (IndexedDB).
+ */
+@Injectable()
+export class LibraryService {
+
+    /**
+     * The version of the library files exported.
+     */
+    readonly version = 1;
+
+    private readonly databaseName = 'confusion-matrix-library';
+    private readonly storeName = 'entries';
+    private database: Promise<IDBDatabase> | undefined;
+
+    constructor(private workspaceService: WorkspaceService) { }
+
+    /**
+     * Gets all the entries, the last changed first.
+     */
+    async list(): Promise<Array<LibraryEntry>> {
+        const entries = await this.request<Array<LibraryEntry>>('readonly', store => store.getAll());
+        return entries.sort((a, b) => b.updated - a.updated);
+    }
+
+    /**
+     * Gets the entries whose name or tags contain a text, ignoring case.
+     * @param text The text searched.
+     * @returns The entries found, the last changed first.
+     */
+    async search(text: string): Promise<Array<LibraryEntry>> {
+        const searched = text.trim().toLowerCase();
+        const entries = await this.list();
+        return entries.filter(entry => !searched || entry.name.toLowerCase().includes(searched) ||
+            entry.tags.some(tag => tag.toLowerCase().includes(searched)));
+    }
+
+    async get(id: string): Promise<LibraryEntry | undefined> {
+        return this.request<LibraryEntry | undefined>('readonly', store => store.get(id));
+    }
+
+    /**
+     * Adds a new entry.
+     * @param name The entry name.
+     * @param tags The entry tags.
+     * @param workspace The confusion matrix and its view.
+     * @returns The entry added.
+     */
+    async add(name: string, tags: Array<string>, workspace: Omit<Workspace, 'version'>): Promise<LibraryEntry> {
+        const now = Date.now();
+        const entry: LibraryEntry = { id: this.createId(), name, tags, created: now, updated: now, workspace };
+        await this.put(entry);
+        return entry;
+    }
+
+    /**
+     * Saves an entry changes, updating its last change time.
+     * @param entry The entry.
+     * @returns The entry saved.
+     */
+    async update(entry: LibraryEntry): Promise<LibraryEntry> {
+        const updated = { ...entry, updated: Date.now() };
+        await this.put(updated);
+        return updated;
+    }
+
+    async rename(id: string, name: string): Promise<LibraryEntry | undefined> {
+        const entry = await this.get(id);
+        return entry ? this.update({ ...entry, name }) : undefined;
+    }
+
+    /**
+     * Adds a copy of an entry, named after it.
+     * @param id The entry copied.
+     * @returns The copy, or undefined if the entry does not exist.
+     */
+    async duplicate(id: string): Promise<LibraryEntry | undefined> {
+        const entry = await this.get(id);
+        return entry ? this.add(`${entry.name} (copy)`, [...entry.tags], entry.workspace) : undefined;
+    }
+
+    async remove(id: string): Promise<void> {
+        await this.request('readwrite', store => store.delete(id));
+    }
+
+    /**
+     * Converts the whole library into a single JSON file.
+     * @returns The library as JSON.
+     */
+    async export(): Promise<string> {
+        return JSON.stringify({ version: this.version, entries: await this.list() }, null, 2);
+    }
+
+    /**
+     * Imports the entries of a library file, replacing the entries with the same id.
+     * Each entry workspace is migrated to the current workspace version.
+     * @param text The library as JSON.
+     * @returns The number of entries imported.
+     * @throws Error when the file is not a library or one of its workspaces is not valid.
+     */
+    async import(text: string): Promise<number> {
+        let library: any;
+        try {
+            library = JSON.parse(text);
+        } catch {
+            throw new Error('The file is not valid JSON.');
+        }
+        if (!Array.isArray(library?.entries)) {
+            throw new Error('The file is not a confusion matrix library.');
+        }
+        const now = Date.now();
+        const entries: Array<LibraryEntry> = library.entries.map((entry: any, index: number) => {
+            const { version, ...workspace } = this.workspaceService.parse(JSON.stringify(entry?.workspace ?? null));
+            return {
+                id: typeof entry.id === 'string' ? entry.id : this.createId(),
+                name: typeof entry.name === 'string' ? entry.name : `Matrix ${index + 1}`,
+                tags: Array.isArray(entry.tags) ? entry.tags.map(String) : [],
+                created: typeof entry.created === 'number' ? entry.created : now,
+                updated: typeof entry.updated === 'number' ? entry.updated : now,
+                workspace
+            };
+        });
+        for (const entry of entries) {
+            await this.put(entry);
+        }
+        return entries.length;
+    }
+
+    private put(entry: LibraryEntry): Promise<IDBValidKey> {
+        return this.request('readwrite', store => store.put(entry));
+    }
+
+    private async request<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+        const database = await this.open();
+        return new Promise<T>((resolve, reject) => {
+            const request = operation(database.transaction(this.storeName, mode).objectStore(this.storeName));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.database) {
+            this.database = new Promise<IDBDatabase>((resolve, reject) => {
+                const request = indexedDB.open(this.databaseName, 1);
+                request.onupgradeneeded = () => request.result.createObjectStore(this.storeName, { keyPath: 'id' });
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    this.database = undefined;
+                    reject(request.error);
+                };
+            });
+        }
+        return this.database;
+    }
+
+    private createId(): string {
+        return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    }
+}
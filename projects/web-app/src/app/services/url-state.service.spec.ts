@@ -0,0 +1,38 @@
+import { WorkspaceService } from 'projects/confusion-matrix/src/public-api';
+import { UrlStateService } from './url-state.service';
+
+describe('Url state service test suite', () => {
+
+    const workspaceService = new WorkspaceService();
+    const urlStateService = new UrlStateService(workspaceService);
+    const workspace = {
+        confusionMatrix: { labels: ['Happiness', 'Sadness'], matrix: [[5, 1], [2, 7]] },
+        title: 'Emotions'
+    };
+
+    it('Can encode a workspace and decode it back.', async () => {
+        const state = await urlStateService.encode(workspace);
+        expect(state).toMatch(/^[zj][A-Za-z0-9_-]*$/);
+        expect(await urlStateService.decode(state)).toEqual({ ...workspace, version: workspaceService.version });
+    });
+
+    it('Can decode a workspace that was not compressed.', async () => {
+        const state = 'j' + btoa(JSON.stringify(workspace)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+        expect(await urlStateService.decode(state)).toEqual({ ...workspace, version: workspaceService.version });
+    });
+
+    it('Fails when the state is not valid.', async () => {
+        await expectAsync(urlStateService.decode('x1234')).toBeRejectedWithError('The link state is not valid.');
+        await expectAsync(urlStateService.decode('z!!!')).toBeRejectedWithError('The link state is not valid.');
+    });
+
+    it('Does not share links that are too long.', async () => {
+        const labels = Array.from({ length: 60 }, (_, index) => `Label ${index}`);
+        const matrix = labels.map(() => labels.map(() => Math.round(Math.random() * 1000000)));
+        const state = await urlStateService.encode({ confusionMatrix: { labels, matrix } });
+        const url = urlStateService.getUrl(state);
+        expect(url.length).toBeGreaterThan(urlStateService.maxLength);
+        expect(urlStateService.canShare(url)).toBeFalse();
+        expect(urlStateService.canShare(urlStateService.getUrl(await urlStateService.encode(workspace)))).toBeTrue();
+    });
+});
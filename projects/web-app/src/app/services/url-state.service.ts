@@ -0,0 +1,105 @@
+import { Injectable } from '@angular/core';
+import { Workspace, WorkspaceService } from 'projects/confusion-matrix/src/public-api';
+
+/**
+ * Encodes the editor workspace into a URL, so the same view can be opened from a link.
+ * The workspace JSON is compressed (deflate) when the browser supports it, and base64url encoded.
+ */
+@Injectable()
+export class UrlStateService {
+
+    /**
+     * Longest link accepted: longer ones are cut by some chat applications and servers.
+     */
+    readonly maxLength = 8000;
+
+    /**
+     * The query parameter holding the state.
+     */
+    readonly parameter = 'state';
+
+    constructor(private workspaceService: WorkspaceService) { }
+
+    /**
+     * Encodes a workspace.
+     * The first character tells how it is encoded: 'z' when compressed, 'j' when plain JSON.
+     * Falls back to plain JSON when the browser can not compress it.
+     * @param workspace The workspace.
+     * @returns The encoded workspace, URL safe.
+     */
+    async encode(workspace: Omit<Workspace, 'version'>): Promise<string> {
+        const bytes = new TextEncoder().encode(JSON.stringify({ ...workspace, version: this.workspaceService.version }));
+        const CompressionStream = (window as any).CompressionStream;
+        if (CompressionStream) {
+            try {
+                return 'z' + this.toBase64Url(await this.transform(bytes, new CompressionStream('deflate')));
+            } catch {
+                // Plain JSON below.
+            }
+        }
+        return 'j' + this.toBase64Url(bytes);
+    }
+
+    /**
+     * Decodes a workspace.
+     * @param state The encoded workspace.
+     * @returns The workspace.
+     * @throws Error when the state can not be decoded or is not a valid workspace.
+     */
+    async decode(state: string): Promise<Workspace> {
+        let bytes = this.fromBase64Url(state.slice(1));
+        if (state[0] === 'z') {
+            const DecompressionStream = (window as any).DecompressionStream;
+            if (!DecompressionStream) {
+                throw new Error('This browser can not open compressed links.');
+            }
+            try {
+                bytes = await this.transform(bytes, new DecompressionStream('deflate'));
+            } catch {
+                throw new Error('The link state is not valid.');
+            }
+        } else if (state[0] !== 'j') {
+            throw new Error('The link state is not valid.');
+        }
+        return this.workspaceService.parse(new TextDecoder().decode(bytes));
+    }
+
+    /**
+     * Gets the editor link of an encoded workspace.
+     * @param state The encoded workspace.
+     * @returns The link.
+     */
+    getUrl(state: string): string {
+        return `${window.location.origin}${window.location.pathname}#/editor?${this.parameter}=${state}`;
+    }
+
+    /**
+     * Checks if a link is short enough to be shared.
+     * @param url The link.
+     * @returns True when the link is at most the maximum length.
+     */
+    canShare(url: string): boolean {
+        return url.length <= this.maxLength;
+    }
+
+    private async transform(bytes: Uint8Array, stream: any): Promise<Uint8Array> {
+        const response = new Response(new Blob([bytes]).stream().pipeThrough(stream));
+        return new Uint8Array(await response.arrayBuffer());
+    }
+
+    private toBase64Url(bytes: Uint8Array): string {
+        let binary = '';
+        bytes.forEach(byte => binary += String.fromCharCode(byte));
+        return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    }
+
+    private fromBase64Url(text: string): Uint8Array {
+        let binary: string;
+        try {
+            binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+        } catch {
+            throw new Error('The link state is not valid.');
+        }
+        return Uint8Array.from(binary, character => character.charCodeAt(0));
+    }
+}